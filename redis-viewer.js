@@ -29,38 +29,29 @@ async function viewRedisData() {
             console.log(`📊 Total Keys: ${allKeys.length}\n`);
             console.log('='.repeat(60));
 
-            // Group keys by type
-            const otpKeys = allKeys.filter(k => k.startsWith('otp:') && !k.includes('attempts') && !k.includes('ratelimit'));
-            const attemptKeys = allKeys.filter(k => k.includes('attempts'));
-            const rateLimitKeys = allKeys.filter(k => k.includes('ratelimit'));
+            // Group keys by type (otp:{tenant}:session:{id}, otp:{tenant}:ratelimit:{identifier})
+            const sessionKeys = allKeys.filter(k => k.startsWith('otp:') && k.includes(':session:'));
+            const rateLimitKeys = allKeys.filter(k => k.startsWith('otp:') && k.includes(':ratelimit:'));
 
-            // Display OTP Keys
-            if (otpKeys.length > 0) {
-                console.log('\n🔐 ACTIVE OTPs:');
+            // Display Verification Sessions
+            if (sessionKeys.length > 0) {
+                console.log('\n🔐 VERIFICATION SESSIONS:');
                 console.log('='.repeat(60));
-                for (const key of otpKeys) {
-                    const value = await client.get(key);
-                    const ttl = await client.ttl(key);
-                    const identifier = key.replace('otp:', '');
-
-                    console.log(`\n📱 Identifier: ${identifier}`);
-                    console.log(`🔒 Hashed OTP: ${value.substring(0, 16)}...`);
-                    console.log(`⏰ Expires in: ${Math.floor(ttl / 60)} minutes ${ttl % 60} seconds`);
-                }
-            }
-
-            // Display Attempt Counters
-            if (attemptKeys.length > 0) {
-                console.log('\n\n🔢 VERIFICATION ATTEMPTS:');
-                console.log('='.repeat(60));
-                for (const key of attemptKeys) {
-                    const attempts = await client.get(key);
-                    const ttl = await client.ttl(key);
-                    const identifier = key.replace('otp:attempts:', '');
-
-                    console.log(`\n📱 ${identifier}`);
-                    console.log(`   Attempts: ${attempts}/3`);
-                    console.log(`   Resets in: ${Math.floor(ttl / 60)} minutes`);
+                for (const key of sessionKeys) {
+                    const session = await client.hGetAll(key);
+                    const expiresIn = Math.round((Date.parse(session.expiresAt) - Date.now()) / 1000);
+                    const status = session.status === 'pending' && expiresIn <= 0 ? 'expired' : session.status;
+
+                    console.log(`\n🆔 Verification: ${session.id} (tenant: ${session.tenantId})`);
+                    console.log(`📱 Identifier: ${session.identifier} via ${session.channel}`);
+                    console.log(`🎯 Purpose: ${session.purpose} (policy: ${session.policy})`);
+                    console.log(`📊 Status: ${status}, wrong attempts: ${session.attempts}`);
+                    if (session.hash) {
+                        console.log(`🔒 Hashed OTP: ${session.hash.substring(0, 16)}...`);
+                    }
+                    if (status === 'pending') {
+                        console.log(`⏰ Expires in: ${Math.floor(expiresIn / 60)} minutes ${expiresIn % 60} seconds`);
+                    }
                 }
             }
 
@@ -71,10 +62,10 @@ async function viewRedisData() {
                 for (const key of rateLimitKeys) {
                     const count = await client.get(key);
                     const ttl = await client.ttl(key);
-                    const identifier = key.replace('otp:ratelimit:', '');
+                    const [, tenant, , identifier] = key.split(':');
 
-                    console.log(`\n📱 ${identifier}`);
-                    console.log(`   OTPs sent: ${count}/3`);
+                    console.log(`\n📱 ${identifier} (tenant: ${tenant})`);
+                    console.log(`   OTPs sent this hour: ${count}`);
                     console.log(`   Resets in: ${Math.floor(ttl / 60)} minutes`);
                 }
             }
@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import type { RedisClient } from './messagingService';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export const API_SCOPES = ['send-sms', 'send-email', 'send-whatsapp', 'otp', 'templates', 'admin', 'platform'] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+export const DEFAULT_TENANT = 'default';
+
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    tenantId: string;
+    scopes: ApiScope[];
+    createdAt: string;
+}
+
+export interface NewApiKey {
+    name: string;
+    tenantId: string;
+    scopes: ApiScope[];
+}
+
+/**
+ * Validate a list of scope names
+ */
+export function isValidScopeList(scopes: any): scopes is ApiScope[] {
+    return Array.isArray(scopes) &&
+        scopes.length > 0 &&
+        scopes.every((scope) => (API_SCOPES as readonly string[]).includes(scope));
+}
+
+/**
+ * `admin` grants every scope within the key's own tenant. Only `platform`
+ * grants operations that cross tenants or change shared configuration.
+ */
+export function grantsScope(apiKey: ApiKeyRecord, scope: ApiScope): boolean {
+    if (apiKey.scopes.includes(scope) || apiKey.scopes.includes('platform')) return true;
+    return scope !== 'platform' && apiKey.scopes.includes('admin');
+}
+
+/**
+ * Compare a presented secret with the expected one in constant time.
+ * Both are hashed first so their lengths always match.
+ */
+export function secretsMatch(presented: unknown, expected: string): boolean {
+    if (typeof presented !== 'string') return false;
+
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(presented), digest(expected));
+}
+
+/**
+ * Tenant IDs become part of Redis keys, so keep them to a safe alphabet
+ */
+export function isValidTenantId(tenantId: any): tenantId is string {
+    return typeof tenantId === 'string' && /^[a-zA-Z0-9_-]{1,64}$/.test(tenantId);
+}
+
+// ===========================
+// API KEY STORE
+// ===========================
+
+/**
+ * API keys stored in Redis. Only a SHA-256 hash of each key is kept;
+ * the plain key is returned once, when it is created.
+ *
+ * Keys:
+ *   apikey:{hash}     Key record (JSON)
+ *   apikey:id:{id}    Key ID → hash
+ *   apikeys           Set of all key IDs
+ */
+export class ApiKeyStore {
+    private redisClient: RedisClient;
+
+    constructor(redisClient: RedisClient) {
+        this.redisClient = redisClient;
+    }
+
+    /**
+     * Generate and store a new API key
+     */
+    async create(input: NewApiKey): Promise<{ key: string; record: ApiKeyRecord }> {
+        const key = `bs_${crypto.randomBytes(24).toString('base64url')}`;
+        const record = await this.register(key, input);
+        return { key, record };
+    }
+
+    /**
+     * Store a caller-supplied key (used to bootstrap keys from configuration)
+     */
+    async register(key: string, input: NewApiKey): Promise<ApiKeyRecord> {
+        const hash = this.hashKey(key);
+        const existing = await this.redisClient.get(`apikey:${hash}`);
+        const id = existing ? (JSON.parse(existing) as ApiKeyRecord).id : crypto.randomUUID();
+
+        const record: ApiKeyRecord = {
+            id,
+            name: input.name,
+            tenantId: input.tenantId,
+            scopes: input.scopes,
+            createdAt: existing ? (JSON.parse(existing) as ApiKeyRecord).createdAt : new Date().toISOString(),
+        };
+
+        await this.redisClient.set(`apikey:${hash}`, JSON.stringify(record));
+        await this.redisClient.set(`apikey:id:${id}`, hash);
+        await this.redisClient.sAdd('apikeys', id);
+
+        return record;
+    }
+
+    /**
+     * Resolve an API key to its record
+     */
+    async authenticate(key: string): Promise<ApiKeyRecord | null> {
+        const raw = await this.redisClient.get(`apikey:${this.hashKey(key)}`);
+        return raw ? (JSON.parse(raw) as ApiKeyRecord) : null;
+    }
+
+    async get(id: string): Promise<ApiKeyRecord | null> {
+        const hash = await this.redisClient.get(`apikey:id:${id}`);
+        const raw = hash ? await this.redisClient.get(`apikey:${hash}`) : null;
+        return raw ? (JSON.parse(raw) as ApiKeyRecord) : null;
+    }
+
+    async list(tenantId?: string): Promise<ApiKeyRecord[]> {
+        const ids = await this.redisClient.sMembers('apikeys');
+        const records: ApiKeyRecord[] = [];
+
+        for (const id of ids) {
+            const hash = await this.redisClient.get(`apikey:id:${id}`);
+            const raw = hash ? await this.redisClient.get(`apikey:${hash}`) : null;
+            if (!raw) continue;
+
+            const record = JSON.parse(raw) as ApiKeyRecord;
+            if (!tenantId || record.tenantId === tenantId) records.push(record);
+        }
+
+        return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async count(): Promise<number> {
+        return this.redisClient.sCard('apikeys');
+    }
+
+    /**
+     * Revoke a key by ID
+     */
+    async revoke(id: string): Promise<boolean> {
+        const hash = await this.redisClient.get(`apikey:id:${id}`);
+        if (!hash) return false;
+
+        await this.redisClient.del([`apikey:${hash}`, `apikey:id:${id}`]);
+        await this.redisClient.sRem('apikeys', id);
+
+        return true;
+    }
+
+    private hashKey(key: string): string {
+        return crypto.createHash('sha256').update(key).digest('hex');
+    }
+}
@@ -0,0 +1,186 @@
+import axios from 'axios';
+import type { ISMSProvider, ProviderBalance, RedisClient } from './messagingService';
+import { providerBalance } from './metrics';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export interface BalanceMonitorConfig {
+    pollIntervalMs: number; // 0 disables polling; balances are still fetched on request
+    thresholds: Record<string, number>; // low-balance threshold keyed by lowercase provider name
+    defaultThreshold?: number; // for providers without their own threshold
+    webhookUrl?: string; // receives a POST when a balance falls below its threshold
+}
+
+export interface BalanceStatus {
+    provider: string;
+    supported: boolean; // false when the provider has no balance API
+    balance?: number;
+    unit?: string;
+    threshold?: number;
+    low: boolean;
+    error?: string;
+    checkedAt: string;
+}
+
+export interface LowBalanceAlert {
+    event: 'provider.balance_low';
+    provider: string;
+    balance: number;
+    unit: string;
+    threshold: number;
+    timestamp: string;
+}
+
+// ===========================
+// BALANCE MONITOR
+// ===========================
+
+/**
+ * Polls SMS provider balances and alerts once when a balance drops below
+ * its threshold. The alert is re-armed when the balance is topped up again.
+ *
+ * Keys:
+ *   balance:{provider}          Last balance check (JSON), see lastKnown
+ *   balance:alerted:{provider}  Set while an alert is outstanding, so every instance alerts only once
+ */
+export class BalanceMonitor {
+    private redisClient: RedisClient;
+    private config: BalanceMonitorConfig;
+    private getProviders: () => ISMSProvider[];
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    constructor(redisClient: RedisClient, config: BalanceMonitorConfig, getProviders: () => ISMSProvider[]) {
+        this.redisClient = redisClient;
+        this.config = config;
+        this.getProviders = getProviders;
+    }
+
+    /**
+     * Fetch every provider's balance now, and alert on any that are low
+     */
+    async check(): Promise<BalanceStatus[]> {
+        return Promise.all(this.getProviders().map((provider) => this.checkProvider(provider)));
+    }
+
+    /**
+     * The last stored check of every provider. Providers that have never
+     * been checked are checked now.
+     */
+    async lastKnown(): Promise<BalanceStatus[]> {
+        return Promise.all(this.getProviders().map(async (provider) => {
+            const stored = await this.redisClient.get(this.statusKey(provider.getProviderName()));
+            return stored ? (JSON.parse(stored) as BalanceStatus) : this.checkProvider(provider);
+        }));
+    }
+
+    /**
+     * Start the in-process polling loop
+     */
+    start(): void {
+        if (this.timer || this.config.pollIntervalMs <= 0) return;
+
+        this.timer = setInterval(() => {
+            this.tick().catch((error) => console.error('Balance monitor error:', error));
+        }, this.config.pollIntervalMs);
+
+        console.log('💰 Provider balance monitor started');
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async tick(): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+
+        try {
+            await this.check();
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private async checkProvider(provider: ISMSProvider): Promise<BalanceStatus> {
+        const name = provider.getProviderName();
+        const checkedAt = new Date().toISOString();
+
+        if (!provider.getBalance) {
+            return { provider: name, supported: false, low: false, checkedAt };
+        }
+
+        const threshold = this.config.thresholds[name.toLowerCase()] ?? this.config.defaultThreshold;
+        let balance: ProviderBalance;
+
+        try {
+            balance = await provider.getBalance();
+        } catch (error: any) {
+            // A failed check says nothing about the balance, so the alert state is left alone
+            const status: BalanceStatus = { provider: name, supported: true, threshold, low: false, error: error.message, checkedAt };
+            await this.redisClient.set(this.statusKey(name), JSON.stringify(status));
+            return status;
+        }
+
+        providerBalance.set({ provider: name, unit: balance.unit }, balance.balance);
+
+        const status: BalanceStatus = {
+            provider: name,
+            supported: true,
+            balance: balance.balance,
+            unit: balance.unit,
+            threshold,
+            low: threshold !== undefined && balance.balance < threshold,
+            checkedAt,
+        };
+        await this.redisClient.set(this.statusKey(name), JSON.stringify(status));
+
+        if (!status.low) {
+            await this.redisClient.del(this.alertedKey(name));
+        } else if (await this.redisClient.set(this.alertedKey(name), checkedAt, { NX: true })) {
+            const delivered = await this.alert({
+                event: 'provider.balance_low',
+                provider: name,
+                balance: balance.balance,
+                unit: balance.unit,
+                threshold: threshold!,
+                timestamp: checkedAt,
+            });
+
+            // Try again on the next poll rather than never telling anyone
+            if (!delivered) await this.redisClient.del(this.alertedKey(name));
+        }
+
+        return status;
+    }
+
+    /**
+     * Log the alert and POST it to the webhook. Returns false if the webhook failed.
+     */
+    private async alert(alert: LowBalanceAlert): Promise<boolean> {
+        console.warn(`⚠️  ${alert.provider} balance is low: ${alert.balance} ${alert.unit} (threshold ${alert.threshold})`);
+
+        if (!this.config.webhookUrl) return true;
+
+        try {
+            await axios.post(this.config.webhookUrl, alert, { timeout: 10 * 1000 });
+            return true;
+        } catch (error: any) {
+            console.error(`Low balance webhook failed for ${alert.provider}:`, error.message);
+            return false;
+        }
+    }
+
+    private statusKey(provider: string): string {
+        return `balance:${provider.toLowerCase()}`;
+    }
+
+    private alertedKey(provider: string): string {
+        return `balance:alerted:${provider.toLowerCase()}`;
+    }
+}
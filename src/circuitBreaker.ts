@@ -0,0 +1,276 @@
+import type { EmailOptions, IEmailProvider, ISMSProvider, ProviderBalance, SendResult } from './messagingService';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+    failureThreshold: number; // consecutive failures that open the circuit
+    resetTimeoutMs: number; // how long the circuit stays open before a trial call
+    timeoutMs: number; // provider calls taking longer count as failures
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+    failureThreshold: 5,
+    resetTimeoutMs: 30 * 1000,
+    timeoutMs: 10 * 1000,
+};
+
+export interface CircuitStatus {
+    provider: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    timeoutMs: number;
+    openedAt?: string;
+    lastError?: string;
+    lastProbeAt?: string;
+    lastProbeHealthy?: boolean;
+}
+
+export class ProviderTimeoutError extends Error {
+    readonly code = 'ETIMEDOUT';
+
+    constructor(timeoutMs: number) {
+        super(`timed out after ${timeoutMs}ms`);
+        this.name = 'ProviderTimeoutError';
+    }
+}
+
+// ===========================
+// CIRCUIT BREAKER
+// ===========================
+
+/**
+ * Stops calling a provider after repeated failures, so requests fail fast
+ * instead of waiting on a provider that is down.
+ *
+ *   closed     calls go through; `failureThreshold` failures in a row open the circuit
+ *   open       calls are rejected without reaching the provider for `resetTimeoutMs`
+ *   half_open  one trial call goes through: success closes the circuit, failure opens it again
+ *
+ * Failures are thrown errors, timeouts and retryable failed results.
+ * Permanent errors (e.g. an invalid number) mean the provider is up.
+ *
+ * A timed-out call is returned as not retryable: the provider may have sent
+ * the message before it stopped answering, so failing over could send it twice.
+ */
+export class CircuitBreaker {
+    private readonly provider: string;
+    private config: CircuitBreakerConfig;
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private trialInFlight = false;
+    private lastError?: string;
+    private lastProbeAt?: string;
+    private lastProbeHealthy?: boolean;
+
+    constructor(provider: string, config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG) {
+        this.provider = provider;
+        this.config = config;
+    }
+
+    getState(): CircuitState {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.config.resetTimeoutMs) {
+            this.state = 'half_open';
+        }
+        return this.state;
+    }
+
+    getStatus(): CircuitStatus {
+        const state = this.getState();
+        return {
+            provider: this.provider,
+            state,
+            consecutiveFailures: this.consecutiveFailures,
+            timeoutMs: this.config.timeoutMs,
+            openedAt: state === 'closed' ? undefined : new Date(this.openedAt).toISOString(),
+            lastError: this.lastError,
+            lastProbeAt: this.lastProbeAt,
+            lastProbeHealthy: this.lastProbeHealthy,
+        };
+    }
+
+    /**
+     * Run a provider call through the breaker, with the configured timeout
+     */
+    async call(send: () => Promise<SendResult>): Promise<SendResult> {
+        const state = this.getState();
+
+        if (state === 'open' || (state === 'half_open' && this.trialInFlight)) {
+            return {
+                success: false,
+                message: `${this.provider} Error: circuit open after repeated failures`,
+                retryable: true,
+            };
+        }
+
+        if (state === 'half_open') this.trialInFlight = true;
+
+        let result: SendResult;
+        try {
+            result = await this.withTimeout(send());
+        } catch (error: any) {
+            result = error instanceof ProviderTimeoutError
+                ? { success: false, message: `${this.provider} Error: ${error.message}`, retryable: false, timedOut: true }
+                : { success: false, message: `${this.provider} Error: ${error.message}`, retryable: true };
+        } finally {
+            this.trialInFlight = false;
+        }
+
+        if (result.success || !(result.retryable || result.timedOut)) {
+            this.recordSuccess();
+        } else {
+            this.recordFailure(result.message);
+        }
+
+        return result;
+    }
+
+    /**
+     * Record a background health check. A passing check lets an open circuit
+     * try a call straight away; a failing one counts as a failure.
+     */
+    recordProbe(healthy: boolean, error?: string): void {
+        this.lastProbeAt = new Date().toISOString();
+        this.lastProbeHealthy = healthy;
+
+        if (!healthy) {
+            this.recordFailure(error || 'Health check failed');
+        } else if (this.getState() === 'open') {
+            this.state = 'half_open';
+        }
+    }
+
+    /**
+     * Settle a promise within the timeout, or reject with a ProviderTimeoutError.
+     * Providers also pass the timeout to their own requests, which abandons
+     * them; this is the backstop for a call that does not.
+     */
+    async withTimeout<T>(promise: Promise<T>): Promise<T> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new ProviderTimeoutError(this.config.timeoutMs)), this.config.timeoutMs);
+        });
+
+        try {
+            return await Promise.race([promise, timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private recordSuccess(): void {
+        this.consecutiveFailures = 0;
+        this.state = 'closed';
+    }
+
+    private recordFailure(message: string): void {
+        this.consecutiveFailures++;
+        this.lastError = message;
+
+        const state = this.getState();
+        if (state === 'half_open' || (state === 'closed' && this.consecutiveFailures >= this.config.failureThreshold)) {
+            if (state === 'closed') {
+                console.warn(`⚠️  ${this.provider} circuit opened after ${this.consecutiveFailures} failures: ${message}`);
+            }
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    }
+}
+
+// ===========================
+// PROVIDER WRAPPERS
+// ===========================
+
+/**
+ * Run a provider's health check through the breaker's timeout and record
+ * the outcome. Providers without a health check are not probed.
+ */
+async function probeProvider(breaker: CircuitBreaker, checkHealth?: () => Promise<void>): Promise<void> {
+    if (!checkHealth) return;
+
+    try {
+        await breaker.withTimeout(checkHealth());
+        breaker.recordProbe(true);
+    } catch (error: any) {
+        breaker.recordProbe(false, error.message);
+    }
+}
+
+/**
+ * An SMS provider whose calls go through a circuit breaker
+ */
+export class CircuitBreakerSMSProvider implements ISMSProvider {
+    readonly breaker: CircuitBreaker;
+    private provider: ISMSProvider;
+    sendBulkSMS?: (to: string[], message: string) => Promise<SendResult>;
+    getBalance?: () => Promise<ProviderBalance>;
+
+    constructor(provider: ISMSProvider, config?: CircuitBreakerConfig) {
+        this.provider = provider;
+        this.breaker = new CircuitBreaker(provider.getProviderName(), config);
+
+        // Only offer optional capabilities the wrapped provider has
+        if (provider.sendBulkSMS) {
+            this.sendBulkSMS = (to, message) => this.breaker.call(() => provider.sendBulkSMS!(to, message));
+        }
+        if (provider.getBalance) {
+            this.getBalance = () => this.breaker.withTimeout(provider.getBalance!());
+        }
+    }
+
+    getProviderName(): string {
+        return this.provider.getProviderName();
+    }
+
+    async sendSMS(to: string, message: string): Promise<SendResult> {
+        return this.breaker.call(() => this.provider.sendSMS(to, message));
+    }
+
+    async sendOTP(to: string, otp: string): Promise<SendResult> {
+        return this.breaker.call(() => this.provider.sendOTP(to, otp));
+    }
+
+    async probe(): Promise<void> {
+        return probeProvider(this.breaker, this.provider.checkHealth?.bind(this.provider));
+    }
+}
+
+/**
+ * An email provider whose calls go through a circuit breaker
+ */
+export class CircuitBreakerEmailProvider implements IEmailProvider {
+    readonly breaker: CircuitBreaker;
+    private provider: IEmailProvider;
+
+    constructor(provider: IEmailProvider, config?: CircuitBreakerConfig) {
+        this.provider = provider;
+        this.breaker = new CircuitBreaker(provider.getProviderName(), config);
+    }
+
+    getProviderName(): string {
+        return this.provider.getProviderName();
+    }
+
+    async sendEmail(
+        to: string | string[],
+        subject: string,
+        htmlBody: string,
+        textBody: string,
+        options?: EmailOptions
+    ): Promise<SendResult> {
+        return this.breaker.call(() => this.provider.sendEmail(to, subject, htmlBody, textBody, options));
+    }
+
+    async sendOTP(to: string, otp: string, brandName?: string): Promise<SendResult> {
+        return this.breaker.call(() => this.provider.sendOTP(to, otp, brandName));
+    }
+
+    async probe(): Promise<void> {
+        return probeProvider(this.breaker, this.provider.checkHealth?.bind(this.provider));
+    }
+}
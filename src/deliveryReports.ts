@@ -0,0 +1,187 @@
+import type { MessageStatus } from './messageStore';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+/**
+ * Provider delivery report normalised to the common status model
+ */
+export interface DeliveryReport {
+    provider: string;
+    providerMessageId?: string;
+    status: MessageStatus;
+    rawStatus: string;
+    recipient?: string;
+    errorCode?: string;
+    timestamp: string;
+}
+
+export type DeliveryReportParser = (payload: any) => DeliveryReport | null;
+
+// ===========================
+// STATUS NORMALISATION
+// ===========================
+
+/**
+ * Map a provider status string to the common status model.
+ * Returns null for statuses that carry no delivery information.
+ */
+export function normaliseDeliveryStatus(rawStatus: string): MessageStatus | null {
+    const status = rawStatus.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+    switch (status) {
+        case 'accepted':
+        case 'queued':
+        case 'pending':
+        case 'scheduled':
+        case 'enroute':
+            return 'queued';
+
+        case 'sending':
+        case 'sent':
+        case 'submitted':
+        case 'submit':
+            return 'sent';
+
+        case 'delivered':
+        case 'delivrd':
+        case 'delivery_success':
+        case 'read':
+            return 'delivered';
+
+        case 'undelivered':
+        case 'undeliverable':
+        case 'undeliv':
+        case 'expired':
+        case 'expird':
+            return 'undelivered';
+
+        case 'failed':
+        case 'failure':
+        case 'rejected':
+        case 'rejectd':
+        case 'canceled':
+        case 'cancelled':
+        case 'network_failure':
+        case 'error':
+            return 'failed';
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Build a report from the fields every parser extracts
+ */
+function buildReport(
+    provider: string,
+    providerMessageId: any,
+    rawStatus: any,
+    recipient?: any,
+    errorCode?: any,
+    timestamp?: any
+): DeliveryReport | null {
+    if (!rawStatus) return null;
+
+    const status = normaliseDeliveryStatus(String(rawStatus));
+    if (!status) return null;
+
+    return {
+        provider,
+        providerMessageId: providerMessageId ? String(providerMessageId) : undefined,
+        status,
+        rawStatus: String(rawStatus),
+        recipient: recipient ? String(recipient) : undefined,
+        errorCode: errorCode ? String(errorCode) : undefined,
+        timestamp: timestamp && !isNaN(Date.parse(timestamp))
+            ? new Date(timestamp).toISOString()
+            : new Date().toISOString(),
+    };
+}
+
+// ===========================
+// PROVIDER PARSERS
+// ===========================
+
+/**
+ * Hubtel delivery callback: { MessageId, Status, UpdateTime, ... }
+ */
+export const parseHubtelReport: DeliveryReportParser = (payload) =>
+    buildReport(
+        'Hubtel',
+        payload.MessageId ?? payload.messageId,
+        payload.Status ?? payload.status,
+        payload.To ?? payload.to,
+        payload.StatusDescription ?? payload.statusDescription,
+        payload.UpdateTime ?? payload.updateTime
+    );
+
+/**
+ * Twilio status callback (form-encoded): { MessageSid, MessageStatus, To, ErrorCode }
+ */
+export const parseTwilioReport: DeliveryReportParser = (payload) =>
+    buildReport(
+        'Twilio',
+        payload.MessageSid ?? payload.SmsSid,
+        payload.MessageStatus ?? payload.SmsStatus,
+        payload.To,
+        payload.ErrorCode
+    );
+
+/**
+ * Twilio WhatsApp status callback: same fields as SMS, reported for the WhatsApp sender
+ */
+export const parseTwilioWhatsAppReport: DeliveryReportParser = (payload) =>
+    buildReport(
+        'Twilio WhatsApp',
+        payload.MessageSid,
+        payload.MessageStatus,
+        payload.To,
+        payload.ErrorCode
+    );
+
+/**
+ * Mnotify gives one campaign ID to every recipient of a request, so a
+ * message is identified by the campaign and the recipient together
+ */
+export function mnotifyMessageId(campaignId: string, recipient: string): string {
+    return `${campaignId}:${recipient.replace(/^\+/, '')}`;
+}
+
+/**
+ * Mnotify delivery report: { _id | campaign_id, status, recipient, date_sent }
+ */
+export const parseMnotifyReport: DeliveryReportParser = (payload) => {
+    const campaignId = payload._id ?? payload.campaign_id ?? payload.id;
+
+    return buildReport(
+        'Mnotify',
+        campaignId && payload.recipient ? mnotifyMessageId(String(campaignId), String(payload.recipient)) : undefined,
+        payload.status,
+        payload.recipient,
+        undefined,
+        payload.date_sent
+    );
+};
+
+/**
+ * Arkesel delivery report: { id | sms_id, status, recipient | phone }
+ */
+export const parseArkeselReport: DeliveryReportParser = (payload) =>
+    buildReport(
+        'Arkesel',
+        payload.id ?? payload.sms_id ?? payload.message_id,
+        payload.status,
+        payload.recipient ?? payload.phone,
+        payload.reason
+    );
+
+export const deliveryReportParsers: Record<string, DeliveryReportParser> = {
+    hubtel: parseHubtelReport,
+    twilio: parseTwilioReport,
+    'twilio-whatsapp': parseTwilioWhatsAppReport,
+    mnotify: parseMnotifyReport,
+    arkesel: parseArkeselReport,
+};
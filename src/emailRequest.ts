@@ -0,0 +1,208 @@
+import type { EmailAttachment, EmailOptions } from './messagingService';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export interface EmailRequestLimits {
+    maxRecipients: number; // to, cc and bcc together
+    maxAttachments: number;
+    maxAttachmentBytes: number; // decoded total of all attachments
+}
+
+export interface ParsedEmailRequest {
+    to?: string[];
+    options?: EmailOptions;
+    error?: string;
+    status?: number; // 413 for size limit violations, otherwise 400
+}
+
+export interface UploadedFile {
+    originalname: string;
+    mimetype: string;
+    buffer: Buffer;
+}
+
+// Headers set from the message fields, which custom headers may not override
+const RESERVED_EMAIL_HEADERS = new Set([
+    'from', 'to', 'cc', 'bcc', 'subject', 'reply-to', 'sender', 'date', 'message-id',
+    'mime-version', 'content-type', 'content-transfer-encoding', 'content-disposition',
+]);
+
+const CONTENT_ID_PATTERN = /^[A-Za-z0-9._@-]{1,128}$/;
+
+// ===========================
+// VALIDATION
+// ===========================
+
+/**
+ * Validate email format
+ */
+export function isValidEmail(email: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/**
+ * A single address or an array of addresses, as an array
+ */
+function toAddressList(value: any): string[] | null {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value) && value.every((address) => typeof address === 'string')) return value;
+    return null;
+}
+
+/**
+ * Validate the recipients and options of an email send. Size limit
+ * violations come back with status 413.
+ */
+export function parseEmailRequest(body: any, limits: EmailRequestLimits): ParsedEmailRequest {
+    const to = toAddressList(body.to);
+    const cc = body.cc === undefined ? [] : toAddressList(body.cc);
+    const bcc = body.bcc === undefined ? [] : toAddressList(body.bcc);
+
+    if (!to || to.length === 0 || !cc || !bcc) {
+        return { error: 'to, cc and bcc must each be an email address or an array of them' };
+    }
+
+    const invalid = [...to, ...cc, ...bcc].find((address) => !isValidEmail(address));
+    if (invalid !== undefined) {
+        return { error: `Invalid email address format: ${invalid}` };
+    }
+
+    if (to.length + cc.length + bcc.length > limits.maxRecipients) {
+        return { error: `At most ${limits.maxRecipients} recipients are allowed (to, cc and bcc together)`, status: 413 };
+    }
+
+    const options: EmailOptions = {};
+    if (cc.length > 0) options.cc = cc;
+    if (bcc.length > 0) options.bcc = bcc;
+
+    if (body.replyTo !== undefined) {
+        if (typeof body.replyTo !== 'string' || !isValidEmail(body.replyTo)) {
+            return { error: 'replyTo must be a valid email address' };
+        }
+        options.replyTo = body.replyTo;
+    }
+
+    if (body.headers !== undefined) {
+        if (typeof body.headers !== 'object' || body.headers === null || Array.isArray(body.headers)) {
+            return { error: 'headers must be an object of header names to values' };
+        }
+
+        for (const [name, value] of Object.entries(body.headers)) {
+            if (!/^[A-Za-z0-9-]{1,76}$/.test(name) || RESERVED_EMAIL_HEADERS.has(name.toLowerCase())) {
+                return { error: `Header ${name} cannot be set. Use letters, digits and "-", and the message fields for standard headers` };
+            }
+            if (typeof value !== 'string' || /[\r\n]/.test(value) || value.length > 998) {
+                return { error: `Header ${name} must be a single-line string of at most 998 characters` };
+            }
+        }
+        options.headers = body.headers;
+    }
+
+    if (body.attachments !== undefined) {
+        if (!Array.isArray(body.attachments)) {
+            return { error: 'attachments must be an array' };
+        }
+        if (body.attachments.length > limits.maxAttachments) {
+            return { error: `At most ${limits.maxAttachments} attachments are allowed`, status: 413 };
+        }
+
+        const attachments: EmailAttachment[] = [];
+        let totalBytes = 0;
+
+        for (const attachment of body.attachments) {
+            const { filename, contentType, contentId } = attachment || {};
+            const content = typeof attachment?.content === 'string' ? attachment.content.replace(/\s/g, '') : null;
+
+            if (typeof filename !== 'string' || !/^[^\/\\\r\n"]{1,255}$/.test(filename)) {
+                return { error: 'Each attachment needs a filename of 1-255 characters without path separators' };
+            }
+            if (content === null || content.length === 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(content)) {
+                return { error: `Attachment ${filename} must have base64 content` };
+            }
+            if (contentType !== undefined && (typeof contentType !== 'string' || !/^[\w.+-]+\/[\w.+-]+$/.test(contentType))) {
+                return { error: `Attachment ${filename} has an invalid contentType` };
+            }
+            if (contentId !== undefined && (typeof contentId !== 'string' || !CONTENT_ID_PATTERN.test(contentId))) {
+                return { error: `Attachment ${filename} has an invalid contentId. Use 1-128 letters, digits, ".", "_", "@" or "-"` };
+            }
+
+            totalBytes += Buffer.byteLength(content, 'base64');
+            attachments.push({ filename, content, contentType, contentId });
+        }
+
+        if (totalBytes > limits.maxAttachmentBytes) {
+            return { error: `Attachments may total at most ${limits.maxAttachmentBytes} bytes`, status: 413 };
+        }
+        if (attachments.length > 0) options.attachments = attachments;
+    }
+
+    return { to, options };
+}
+
+// ===========================
+// MULTIPART UPLOADS
+// ===========================
+
+/**
+ * Convert a multipart/form-data email request into the JSON request's shape,
+ * so the route (and the idempotency fingerprint) see the same body either way.
+ * Files in `attachments` are attached; files in `inline` are embedded and
+ * referenced in the HTML as cid:<filename>.
+ */
+export function multipartEmailBody(
+    fields: Record<string, any>,
+    files: { attachments?: UploadedFile[]; inline?: UploadedFile[] }
+): { body?: Record<string, any>; error?: string } {
+    const body: Record<string, any> = { ...fields };
+
+    for (const field of ['to', 'cc', 'bcc']) {
+        if (typeof body[field] === 'string' && body[field].includes(',')) {
+            body[field] = body[field].split(',').map((address: string) => address.trim());
+        }
+    }
+    if (body.async !== undefined) body.async = body.async === 'true';
+    if (typeof body.delaySeconds === 'string') body.delaySeconds = Number(body.delaySeconds);
+
+    for (const field of ['headers', 'variables']) {
+        if (typeof body[field] !== 'string') continue;
+        try {
+            body[field] = JSON.parse(body[field]);
+        } catch {
+            return { error: `${field} must be a JSON object` };
+        }
+    }
+
+    // The filename becomes the content ID, so it has to be one the HTML can reference
+    const unreferenceable = (files.inline || []).find((file) => !CONTENT_ID_PATTERN.test(file.originalname));
+    if (unreferenceable) {
+        return {
+            error: `Inline file "${unreferenceable.originalname}" is referenced as cid:<filename>, so its filename may only use 1-128 letters, digits, ".", "_", "@" or "-". Rename it, e.g. to "${cidFilename(unreferenceable.originalname)}"`,
+        };
+    }
+
+    const uploaded: EmailAttachment[] = [
+        ...(files.attachments || []).map((file) => ({
+            filename: file.originalname,
+            content: file.buffer.toString('base64'),
+            contentType: file.mimetype,
+        })),
+        ...(files.inline || []).map((file) => ({
+            filename: file.originalname,
+            content: file.buffer.toString('base64'),
+            contentType: file.mimetype,
+            contentId: file.originalname,
+        })),
+    ];
+    if (uploaded.length > 0) body.attachments = uploaded;
+
+    return { body };
+}
+
+/**
+ * A filename with the characters a content ID cannot hold replaced by "-"
+ */
+function cidFilename(filename: string): string {
+    return filename.replace(/[^A-Za-z0-9._@-]/g, '-').slice(0, 128) || 'inline';
+}
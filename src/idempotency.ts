@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import type { RedisClient } from './messagingService';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export interface StoredResponse {
+    statusCode: number;
+    body: any;
+}
+
+export type IdempotencyBeginResult =
+    | { state: 'new' } // the caller handles the request and must complete or release it
+    | { state: 'processing' } // a request with this key is still running
+    | { state: 'mismatch' } // the key was used with a different request
+    | { state: 'completed'; response: StoredResponse };
+
+interface IdempotencyRecord {
+    fingerprint: string;
+    status: 'processing' | 'completed';
+    response?: StoredResponse;
+    createdAt: string;
+}
+
+/**
+ * Extend a claim, but only while its request is still running, so a late
+ * refresh cannot cut short the retention of a stored response.
+ * KEYS: record. ARGV: TTL in seconds.
+ */
+const REFRESH_CLAIM_SCRIPT = `
+local raw = redis.call('GET', KEYS[1])
+if raw and cjson.decode(raw).status == 'processing' then
+    return redis.call('EXPIRE', KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+/**
+ * JSON with object keys sorted, so equal bodies fingerprint the same
+ */
+function canonicalJSON(value: any): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonicalJSON(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * SHA-256 of a request's method, path and body
+ */
+export function requestFingerprint(method: string, path: string, body: any): string {
+    return crypto.createHash('sha256').update(`${method} ${path}\n${canonicalJSON(body ?? {})}`).digest('hex');
+}
+
+// ===========================
+// IDEMPOTENCY STORE
+// ===========================
+
+/**
+ * First responses to requests sent with an Idempotency-Key, so retries of the
+ * same request are answered without sending the message again. A claim is
+ * short-lived and kept alive while its request runs (see holdClaim), so a
+ * long bulk send keeps its key but a crashed server frees it quickly.
+ *
+ * Keys:
+ *   idempotency:{tenant}:{key}    Request fingerprint and status, then the stored response (JSON)
+ */
+export class IdempotencyStore {
+    private readonly PROCESSING_TTL = 5 * 60; // frees the key if the server stops mid-request
+    private readonly REFRESH_INTERVAL_MS = 60 * 1000;
+    private redisClient: RedisClient;
+    private ttlSeconds: number;
+
+    constructor(redisClient: RedisClient, ttlSeconds: number) {
+        this.redisClient = redisClient;
+        this.ttlSeconds = ttlSeconds;
+    }
+
+    /**
+     * Claim a key for a request, or report what happened to an earlier request with it
+     */
+    async begin(tenantId: string, key: string, fingerprint: string): Promise<IdempotencyBeginResult> {
+        const record: IdempotencyRecord = { fingerprint, status: 'processing', createdAt: new Date().toISOString() };
+
+        const claimed = await this.redisClient.set(this.recordKey(tenantId, key), JSON.stringify(record), {
+            NX: true,
+            EX: this.PROCESSING_TTL,
+        });
+        if (claimed) return { state: 'new' };
+
+        const raw = await this.redisClient.get(this.recordKey(tenantId, key));
+        if (!raw) {
+            // Expired between the two calls
+            return this.begin(tenantId, key, fingerprint);
+        }
+
+        const existing = JSON.parse(raw) as IdempotencyRecord;
+        if (existing.fingerprint !== fingerprint) return { state: 'mismatch' };
+        if (existing.status === 'processing') return { state: 'processing' };
+
+        return { state: 'completed', response: existing.response! };
+    }
+
+    /**
+     * Keep a claimed key from expiring while its request is handled.
+     * Call the returned function once the request has finished.
+     */
+    holdClaim(tenantId: string, key: string): () => void {
+        const timer = setInterval(() => {
+            this.redisClient.eval(REFRESH_CLAIM_SCRIPT, {
+                keys: [this.recordKey(tenantId, key)],
+                arguments: [String(this.PROCESSING_TTL)],
+            }).catch((error) => console.error('Idempotency store error:', error.message));
+        }, this.REFRESH_INTERVAL_MS);
+
+        // Never keep the process alive just to refresh a claim
+        timer.unref();
+        return () => clearInterval(timer);
+    }
+
+    /**
+     * Store the response for replay for the rest of the window
+     */
+    async complete(tenantId: string, key: string, fingerprint: string, response: StoredResponse): Promise<void> {
+        const record: IdempotencyRecord = { fingerprint, status: 'completed', response, createdAt: new Date().toISOString() };
+        await this.redisClient.setEx(this.recordKey(tenantId, key), this.ttlSeconds, JSON.stringify(record));
+    }
+
+    /**
+     * Forget a key so the request can be retried (e.g. after a server error)
+     */
+    async release(tenantId: string, key: string): Promise<void> {
+        await this.redisClient.del(this.recordKey(tenantId, key));
+    }
+
+    private recordKey(tenantId: string, key: string): string {
+        return `idempotency:${tenantId}:${key}`;
+    }
+}
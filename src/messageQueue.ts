@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import type { EmailOptions, RedisClient, SendResult } from './messagingService';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export type QueueJobPayload = { tenantId: string } & (
+    | { channel: 'sms'; to: string; message: string }
+    | { channel: 'email'; to: string | string[]; subject: string; htmlBody: string; textBody: string; options?: EmailOptions }
+);
+
+export type QueueJobStatus = 'queued' | 'processing' | 'retrying' | 'sent' | 'dead';
+
+export interface QueueJob {
+    id: string;
+    payload: QueueJobPayload;
+    status: QueueJobStatus;
+    attempts: number;
+    lastError?: string;
+    result?: SendResult;
+    nextAttemptAt?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface MessageQueueConfig {
+    maxAttempts: number;
+    baseDelayMs: number; // delay before the first retry, doubled on each attempt
+    maxDelayMs: number;
+    pollIntervalMs: number;
+    concurrency: number;
+}
+
+export type QueueDeliveryHandler = (job: QueueJob) => Promise<SendResult>;
+export type QueueDeadLetterHandler = (job: QueueJob) => Promise<void>;
+
+// ===========================
+// REDIS-BACKED SEND QUEUE
+// ===========================
+
+/**
+ * Asynchronous send queue stored in Redis.
+ *
+ * Keys:
+ *   queue:job:{id}     Job record (JSON)
+ *   queue:pending      Job IDs ready for delivery
+ *   queue:processing   Job IDs currently being delivered
+ *   queue:delayed      Job IDs waiting for a retry, scored by due time
+ *   queue:dead         Job IDs that failed permanently (dead-letter list)
+ */
+export class MessageQueue {
+    private readonly JOB_TTL = 7 * 24 * 3600; // keep finished jobs for 7 days
+    private readonly PENDING_KEY = 'queue:pending';
+    private readonly PROCESSING_KEY = 'queue:processing';
+    private readonly DELAYED_KEY = 'queue:delayed';
+    private readonly DEAD_KEY = 'queue:dead';
+
+    private redisClient: RedisClient;
+    private config: MessageQueueConfig;
+    private deliver: QueueDeliveryHandler;
+    private onDead?: QueueDeadLetterHandler;
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    constructor(
+        redisClient: RedisClient,
+        config: MessageQueueConfig,
+        deliver: QueueDeliveryHandler,
+        onDead?: QueueDeadLetterHandler
+    ) {
+        this.redisClient = redisClient;
+        this.config = config;
+        this.deliver = deliver;
+        this.onDead = onDead;
+    }
+
+    /**
+     * Add a job to the queue and return its ID
+     */
+    async enqueue(payload: QueueJobPayload, id: string = crypto.randomUUID()): Promise<QueueJob> {
+        const now = new Date().toISOString();
+        const job: QueueJob = {
+            id,
+            payload,
+            status: 'queued',
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await this.saveJob(job);
+        await this.redisClient.lPush(this.PENDING_KEY, id);
+
+        return job;
+    }
+
+    async getJob(id: string): Promise<QueueJob | null> {
+        const raw = await this.redisClient.get(this.jobKey(id));
+        return raw ? (JSON.parse(raw) as QueueJob) : null;
+    }
+
+    async getStats(): Promise<{ pending: number; processing: number; delayed: number; dead: number }> {
+        const [pending, processing, delayed, dead] = await Promise.all([
+            this.redisClient.lLen(this.PENDING_KEY),
+            this.redisClient.lLen(this.PROCESSING_KEY),
+            this.redisClient.zCard(this.DELAYED_KEY),
+            this.redisClient.lLen(this.DEAD_KEY),
+        ]);
+
+        return { pending, processing, delayed, dead };
+    }
+
+    /**
+     * Start the in-process worker loop
+     */
+    async start(): Promise<void> {
+        if (this.timer) return;
+
+        // Jobs left in processing by a previous run never finished; deliver them again
+        while (await this.redisClient.rPopLPush(this.PROCESSING_KEY, this.PENDING_KEY)) {
+            // keep moving until the processing list is empty
+        }
+
+        this.timer = setInterval(() => {
+            this.tick().catch((error) => console.error('Queue worker error:', error));
+        }, this.config.pollIntervalMs);
+
+        console.log('📬 Message queue worker started');
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Promote due retries, then deliver up to `concurrency` pending jobs
+     */
+    private async tick(): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+
+        try {
+            await this.promoteDueJobs();
+
+            const ids: string[] = [];
+            while (ids.length < this.config.concurrency) {
+                const id = await this.redisClient.rPopLPush(this.PENDING_KEY, this.PROCESSING_KEY);
+                if (!id) break;
+                ids.push(id);
+            }
+
+            await Promise.all(ids.map((id) => this.process(id)));
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private async promoteDueJobs(): Promise<void> {
+        const dueIds = await this.redisClient.zRangeByScore(this.DELAYED_KEY, 0, Date.now());
+
+        for (const id of dueIds) {
+            // Only the caller that removes the entry may promote it
+            if (await this.redisClient.zRem(this.DELAYED_KEY, id)) {
+                await this.redisClient.lPush(this.PENDING_KEY, id);
+            }
+        }
+    }
+
+    private async process(id: string): Promise<void> {
+        const job = await this.getJob(id);
+        if (!job) {
+            await this.redisClient.lRem(this.PROCESSING_KEY, 1, id);
+            return;
+        }
+
+        job.status = 'processing';
+        job.attempts += 1;
+        await this.saveJob(job);
+
+        let result: SendResult;
+        try {
+            result = await this.deliver(job);
+        } catch (error: any) {
+            result = { success: false, message: error.message, retryable: true };
+        }
+
+        job.result = result;
+        job.nextAttemptAt = undefined;
+
+        if (result.success) {
+            job.status = 'sent';
+            job.lastError = undefined;
+        } else if (result.retryable && job.attempts < this.config.maxAttempts) {
+            const dueAt = Date.now() + this.getRetryDelay(job.attempts);
+            job.status = 'retrying';
+            job.lastError = result.message;
+            job.nextAttemptAt = new Date(dueAt).toISOString();
+            await this.redisClient.zAdd(this.DELAYED_KEY, { score: dueAt, value: id });
+        } else {
+            job.status = 'dead';
+            job.lastError = result.message;
+            await this.redisClient.lPush(this.DEAD_KEY, id);
+            console.warn(`☠️  Queue job ${id} moved to dead-letter list: ${result.message}`);
+        }
+
+        await this.saveJob(job);
+        if (job.status === 'dead' && this.onDead) {
+            await this.onDead(job).catch((error) => console.error('Queue dead-letter handler error:', error));
+        }
+        await this.redisClient.lRem(this.PROCESSING_KEY, 1, id);
+    }
+
+    /**
+     * Exponential backoff with up to 20% jitter
+     */
+    private getRetryDelay(attempts: number): number {
+        const delay = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** (attempts - 1));
+        return Math.round(delay * (1 + Math.random() * 0.2));
+    }
+
+    private async saveJob(job: QueueJob): Promise<void> {
+        job.updatedAt = new Date().toISOString();
+        await this.redisClient.setEx(this.jobKey(job.id), this.JOB_TTL, JSON.stringify(job));
+    }
+
+    private jobKey(id: string): string {
+        return `queue:job:${id}`;
+    }
+}
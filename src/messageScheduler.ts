@@ -0,0 +1,370 @@
+import crypto from 'crypto';
+import type { RedisClient } from './messagingService';
+import type { QueueJobPayload } from './messageQueue';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export type ScheduledMessageStatus = 'scheduled' | 'dispatched' | 'cancelled' | 'failed';
+
+export interface ScheduledMessage {
+    id: string; // also the message ID in the message log
+    payload: QueueJobPayload;
+    status: ScheduledMessageStatus;
+    sendAt: string;
+    dispatchedAt?: string;
+    attempts?: number; // dispatch attempts that threw
+    lastError?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface MessageSchedulerConfig {
+    pollIntervalMs: number;
+}
+
+export type ScheduledDispatchHandler = (message: ScheduledMessage) => Promise<void>;
+
+export type ScheduledFailureHandler = (message: ScheduledMessage) => Promise<void>;
+
+// ===========================
+// LUA SCRIPTS
+// ===========================
+
+/**
+ * Move a due message to processing, so a crash mid-dispatch leaves it recoverable.
+ * KEYS: due, processing. ARGV: id, now (ms). Returns 1 if this caller claimed it.
+ */
+const CLAIM_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 0 then
+    return 0
+end
+redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+return 1
+`;
+
+/**
+ * Put a claimed message back on the schedule (retry or stale recovery).
+ * KEYS: processing, due, tenant index. ARGV: id, score. Returns 1 if it was still claimed.
+ */
+const RELEASE_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 0 then
+    return 0
+end
+redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+redis.call('ZADD', KEYS[3], ARGV[2], ARGV[1])
+return 1
+`;
+
+/**
+ * Change a message that is still waiting to be sent, in one step.
+ * KEYS: due, tenant index, message. ARGV: id, new score or '' to remove it
+ * from the schedule, message JSON, TTL in seconds. Returns 1 if it was waiting.
+ */
+const UPDATE_PENDING_SCRIPT = `
+if not redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+    return 0
+end
+if ARGV[2] == '' then
+    redis.call('ZREM', KEYS[1], ARGV[1])
+    redis.call('ZREM', KEYS[2], ARGV[1])
+else
+    redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+    redis.call('ZADD', KEYS[2], ARGV[2], ARGV[1])
+end
+redis.call('SET', KEYS[3], ARGV[3], 'EX', ARGV[4])
+return 1
+`;
+
+// ===========================
+// REDIS-BACKED SCHEDULER
+// ===========================
+
+/**
+ * Messages to be sent at a later time, stored in Redis so they survive restarts.
+ * An in-process loop hands each message to the dispatch handler once it is due.
+ * A message stays in `schedule:processing` while it is dispatched; if the
+ * process dies meanwhile, the claim goes stale and the message is due again.
+ *
+ * Keys:
+ *   schedule:message:{id}     Scheduled message (JSON)
+ *   schedule:due              IDs of messages waiting for their send time, scored by send time
+ *   schedule:processing       IDs being dispatched, scored by claim time
+ *   schedule:index:{tenant}   A tenant's messages still to be sent, scored by send (or retry) time
+ */
+export class MessageScheduler {
+    private readonly RETENTION = 7 * 24 * 3600; // keep dispatched and cancelled messages for 7 days
+    private readonly RETRY_DELAY_MS = 60 * 1000; // when the dispatch handler throws
+    private readonly MAX_ATTEMPTS = 5; // then the message is marked failed
+    private readonly CLAIM_TIMEOUT_MS = 5 * 60 * 1000; // a claim older than this belongs to a dead process
+    private readonly DUE_KEY = 'schedule:due';
+    private readonly PROCESSING_KEY = 'schedule:processing';
+
+    private redisClient: RedisClient;
+    private config: MessageSchedulerConfig;
+    private dispatch: ScheduledDispatchHandler;
+    private onFailed?: ScheduledFailureHandler;
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    constructor(
+        redisClient: RedisClient,
+        config: MessageSchedulerConfig,
+        dispatch: ScheduledDispatchHandler,
+        onFailed?: ScheduledFailureHandler
+    ) {
+        this.redisClient = redisClient;
+        this.config = config;
+        this.dispatch = dispatch;
+        this.onFailed = onFailed;
+    }
+
+    /**
+     * Schedule a message for `sendAt`
+     */
+    async schedule(payload: QueueJobPayload, sendAt: Date, id: string = crypto.randomUUID()): Promise<ScheduledMessage> {
+        const now = new Date().toISOString();
+        const message: ScheduledMessage = {
+            id,
+            payload,
+            status: 'scheduled',
+            sendAt: sendAt.toISOString(),
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await this.save(message);
+        await this.addToSchedule(message);
+
+        return message;
+    }
+
+    async get(id: string): Promise<ScheduledMessage | null> {
+        const raw = await this.redisClient.get(this.messageKey(id));
+        return raw ? (JSON.parse(raw) as ScheduledMessage) : null;
+    }
+
+    /**
+     * A tenant's messages still to be sent, soonest first
+     */
+    async list(tenantId: string, limit = 50, offset = 0): Promise<ScheduledMessage[]> {
+        const ids = await this.redisClient.zRange(this.indexKey(tenantId), '-inf', '+inf', {
+            BY: 'SCORE',
+            LIMIT: { offset, count: limit },
+        });
+
+        const messages: ScheduledMessage[] = [];
+        for (const id of ids) {
+            const message = await this.get(id);
+            if (message) messages.push(message);
+        }
+
+        return messages;
+    }
+
+    /**
+     * Move a message to a new send time. Returns null if it has already been
+     * dispatched or cancelled.
+     */
+    async reschedule(id: string, sendAt: Date): Promise<ScheduledMessage | null> {
+        const message = await this.get(id);
+        if (!message || message.status !== 'scheduled') return null;
+
+        message.sendAt = sendAt.toISOString();
+        return (await this.updatePending(message, Date.parse(message.sendAt))) ? message : null;
+    }
+
+    /**
+     * Cancel a message. Returns null if it has already been dispatched or cancelled.
+     */
+    async cancel(id: string): Promise<ScheduledMessage | null> {
+        const message = await this.get(id);
+        if (!message || message.status !== 'scheduled') return null;
+
+        message.status = 'cancelled';
+        return (await this.updatePending(message, null)) ? message : null;
+    }
+
+    /**
+     * Messages waiting to be sent, those of them already due, and those being dispatched
+     */
+    async getStats(): Promise<{ scheduled: number; due: number; processing: number }> {
+        const [scheduled, due, processing] = await Promise.all([
+            this.redisClient.zCard(this.DUE_KEY),
+            this.redisClient.zCount(this.DUE_KEY, 0, Date.now()),
+            this.redisClient.zCard(this.PROCESSING_KEY),
+        ]);
+
+        return { scheduled, due, processing };
+    }
+
+    /**
+     * Start the in-process scheduler loop
+     */
+    start(): void {
+        if (this.timer) return;
+
+        // Claims left by a previous run are picked up by the first tick
+        this.tick().catch((error) => console.error('Scheduler error:', error));
+
+        this.timer = setInterval(() => {
+            this.tick().catch((error) => console.error('Scheduler error:', error));
+        }, this.config.pollIntervalMs);
+
+        console.log('⏰ Message scheduler started');
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Dispatch every message whose send time has passed
+     */
+    private async tick(): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+
+        try {
+            await this.recoverStaleClaims();
+
+            const dueIds = await this.redisClient.zRangeByScore(this.DUE_KEY, 0, Date.now());
+
+            for (const id of dueIds) {
+                if (await this.claim(id)) await this.process(id);
+            }
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private async process(id: string): Promise<void> {
+        const message = await this.get(id);
+
+        // Finished before a crash left its claim behind, or expired
+        if (!message || message.status !== 'scheduled') {
+            await this.finish(id, message?.payload.tenantId);
+            return;
+        }
+
+        try {
+            await this.dispatch(message);
+        } catch (error: any) {
+            message.attempts = (message.attempts || 0) + 1;
+            message.lastError = error.message;
+
+            if (message.attempts < this.MAX_ATTEMPTS) {
+                // Put it back so a temporary failure does not lose the message
+                console.error(`Scheduled message ${message.id} dispatch failed, retrying:`, error.message);
+                await this.save(message);
+                await this.release(message, Date.now() + this.RETRY_DELAY_MS);
+                return;
+            }
+
+            console.error(`Scheduled message ${message.id} failed after ${message.attempts} attempts:`, error.message);
+            message.status = 'failed';
+            await this.save(message);
+            await this.finish(message.id, message.payload.tenantId);
+            await this.onFailed?.(message);
+            return;
+        }
+
+        message.status = 'dispatched';
+        message.dispatchedAt = new Date().toISOString();
+        await this.save(message);
+        await this.finish(message.id, message.payload.tenantId);
+    }
+
+    /**
+     * Move a due message to processing. Only the caller that moves it may dispatch it.
+     */
+    private async claim(id: string): Promise<boolean> {
+        const claimed = await this.redisClient.eval(CLAIM_SCRIPT, {
+            keys: [this.DUE_KEY, this.PROCESSING_KEY],
+            arguments: [id, String(Date.now())],
+        });
+        return claimed === 1;
+    }
+
+    /**
+     * Make a claimed message due again at `score`, in the schedule and its tenant's listing
+     */
+    private async release(message: ScheduledMessage, score: number): Promise<boolean> {
+        const released = await this.redisClient.eval(RELEASE_SCRIPT, {
+            keys: [this.PROCESSING_KEY, this.DUE_KEY, this.indexKey(message.payload.tenantId)],
+            arguments: [message.id, String(score)],
+        });
+        return released === 1;
+    }
+
+    /**
+     * Make messages claimed by a process that has since died due again
+     */
+    private async recoverStaleClaims(): Promise<void> {
+        const staleIds = await this.redisClient.zRangeByScore(this.PROCESSING_KEY, 0, Date.now() - this.CLAIM_TIMEOUT_MS);
+
+        for (const id of staleIds) {
+            const message = await this.get(id);
+
+            // Expired while claimed: there is nothing left to send
+            if (!message) {
+                await this.finish(id);
+                continue;
+            }
+
+            if (await this.release(message, Date.now())) {
+                console.warn(`⚠️  Scheduled message ${id} was left mid-dispatch; it is due again`);
+            }
+        }
+    }
+
+    private async finish(id: string, tenantId?: string): Promise<void> {
+        const transaction = this.redisClient.multi().zRem(this.PROCESSING_KEY, id);
+        if (tenantId) transaction.zRem(this.indexKey(tenantId), id);
+        await transaction.exec();
+    }
+
+    /**
+     * Save a message that is still waiting for its send time, moving it to
+     * `score` or (when null) taking it off the schedule
+     */
+    private async updatePending(message: ScheduledMessage, score: number | null): Promise<boolean> {
+        message.updatedAt = new Date().toISOString();
+
+        const updated = await this.redisClient.eval(UPDATE_PENDING_SCRIPT, {
+            keys: [this.DUE_KEY, this.indexKey(message.payload.tenantId), this.messageKey(message.id)],
+            arguments: [message.id, score === null ? '' : String(score), JSON.stringify(message), String(this.ttl(message))],
+        });
+        return updated === 1;
+    }
+
+    private async addToSchedule(message: ScheduledMessage): Promise<void> {
+        const score = Date.parse(message.sendAt);
+        await this.redisClient.zAdd(this.DUE_KEY, { score, value: message.id });
+        await this.redisClient.zAdd(this.indexKey(message.payload.tenantId), { score, value: message.id });
+    }
+
+    private async save(message: ScheduledMessage): Promise<void> {
+        message.updatedAt = new Date().toISOString();
+        await this.redisClient.setEx(this.messageKey(message.id), this.ttl(message), JSON.stringify(message));
+    }
+
+    /**
+     * Keep the record until it is sent, plus the retention window
+     */
+    private ttl(message: ScheduledMessage): number {
+        return Math.max(0, Math.ceil((Date.parse(message.sendAt) - Date.now()) / 1000)) + this.RETENTION;
+    }
+
+    private messageKey(id: string): string {
+        return `schedule:message:${id}`;
+    }
+
+    private indexKey(tenantId: string): string {
+        return `schedule:index:${tenantId}`;
+    }
+}
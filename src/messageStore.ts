@@ -0,0 +1,354 @@
+import crypto from 'crypto';
+import type { RedisClient } from './messagingService';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export const MESSAGE_CHANNELS = ['sms', 'email', 'voice', 'whatsapp'] as const;
+
+export type MessageChannel = typeof MESSAGE_CHANNELS[number];
+
+export type MessageStatus = 'queued' | 'sent' | 'delivered' | 'failed' | 'undelivered' | 'cancelled';
+
+export interface MessageStatusEvent {
+    status: MessageStatus;
+    timestamp: string;
+    provider?: string;
+    detail?: string;
+}
+
+export interface MessageRecord {
+    id: string;
+    tenantId: string;
+    channel: MessageChannel;
+    to: string | string[]; // email: every "to" address
+    cc?: string[];
+    bcc?: string[];
+    status: MessageStatus;
+    provider?: string;
+    providerMessageId?: string;
+    subject?: string;
+    body?: string; // redacted, see redactMessageBody
+    history: MessageStatusEvent[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface NewMessage {
+    id?: string;
+    tenantId: string;
+    channel: MessageChannel;
+    to: string | string[];
+    cc?: string[];
+    bcc?: string[];
+    status: MessageStatus;
+    provider?: string;
+    providerMessageId?: string;
+    subject?: string;
+    body?: string; // redacted before it is stored
+    detail?: string;
+}
+
+export interface MessageStatusUpdate {
+    provider?: string;
+    providerMessageId?: string;
+    detail?: string;
+    timestamp?: string;
+}
+
+export interface MessageSearchFilters {
+    tenantId: string;
+    recipient?: string;
+    channel?: MessageChannel;
+    provider?: string;
+    status?: MessageStatus;
+    startDate?: Date;
+    endDate?: Date;
+    limit?: number;
+    cursor?: string;
+}
+
+export interface MessageSearchResult {
+    messages: MessageRecord[];
+    nextCursor: string | null;
+}
+
+// Final states; a late "sent" report must not overwrite them
+const TERMINAL_STATUSES: MessageStatus[] = ['delivered', 'failed', 'undelivered', 'cancelled'];
+
+const MAX_BODY_LENGTH = 500;
+
+// ===========================
+// REDACTION
+// ===========================
+
+/**
+ * Mask anything that looks like a code (runs of 4+ digits) and truncate,
+ * so the log can answer "was it sent?" without exposing what was sent.
+ */
+export function redactMessageBody(body: string): string {
+    const redacted = body
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/\d{4,}/g, (digits) => '*'.repeat(digits.length));
+
+    return redacted.length > MAX_BODY_LENGTH
+        ? `${redacted.slice(0, MAX_BODY_LENGTH)}…`
+        : redacted;
+}
+
+/**
+ * A search cursor is "<score>:<id>" as returned in nextCursor
+ */
+export function isValidSearchCursor(cursor: string): boolean {
+    return /^\d{1,15}:[^:\s]+$/.test(cursor);
+}
+
+// ===========================
+// MESSAGE LOG STORE
+// ===========================
+
+/**
+ * Persistent log of every message sent through MessagingService, with its
+ * delivery status history and search indexes.
+ *
+ * Keys:
+ *   message:{id}                              Message record (JSON)
+ *   message:provider:{provider}:{providerId}  Provider message ID → message ID
+ *   message:index:{tenant}                    A tenant's message IDs, scored by creation time
+ *   message:index:{tenant}:{field}:{value}    Per-filter indexes (recipient, channel, provider, status)
+ */
+export class MessageStore {
+    private redisClient: RedisClient;
+    private retentionSeconds: number;
+
+    constructor(redisClient: RedisClient, retentionDays = 30) {
+        this.redisClient = redisClient;
+        this.retentionSeconds = retentionDays * 24 * 3600;
+    }
+
+    /**
+     * Create a new message record
+     */
+    async create(message: NewMessage): Promise<MessageRecord> {
+        const timestamp = new Date().toISOString();
+        const record: MessageRecord = {
+            id: message.id || crypto.randomUUID(),
+            tenantId: message.tenantId,
+            channel: message.channel,
+            to: message.to,
+            cc: message.cc,
+            bcc: message.bcc,
+            status: message.status,
+            provider: message.provider,
+            providerMessageId: message.providerMessageId,
+            subject: message.subject,
+            body: message.body !== undefined ? redactMessageBody(message.body) : undefined,
+            history: [{
+                status: message.status,
+                timestamp,
+                provider: message.provider,
+                detail: message.detail,
+            }],
+            createdAt: timestamp,
+            updatedAt: timestamp,
+        };
+
+        await this.save(record);
+        await this.addToIndexes(record);
+
+        return record;
+    }
+
+    async get(id: string): Promise<MessageRecord | null> {
+        const raw = await this.redisClient.get(this.messageKey(id));
+        return raw ? (JSON.parse(raw) as MessageRecord) : null;
+    }
+
+    /**
+     * Resolve our message ID from a provider's message ID
+     */
+    async findByProviderMessageId(provider: string, providerMessageId: string): Promise<MessageRecord | null> {
+        const id = await this.redisClient.get(this.providerKey(provider, providerMessageId));
+        return id ? this.get(id) : null;
+    }
+
+    /**
+     * Append a status event. Terminal statuses are never replaced by
+     * non-terminal ones, so out-of-order reports only extend the history.
+     */
+    async updateStatus(
+        id: string,
+        status: MessageStatus,
+        update: MessageStatusUpdate = {}
+    ): Promise<MessageRecord | null> {
+        const record = await this.get(id);
+        if (!record) return null;
+
+        const previous = { ...record };
+        const timestamp = update.timestamp || new Date().toISOString();
+        const provider = update.provider || record.provider;
+
+        record.history.push({ status, timestamp, provider, detail: update.detail });
+
+        if (!TERMINAL_STATUSES.includes(record.status) || TERMINAL_STATUSES.includes(status)) {
+            record.status = status;
+        }
+        record.provider = provider;
+        record.providerMessageId = update.providerMessageId || record.providerMessageId;
+        record.updatedAt = new Date().toISOString();
+
+        await this.save(record);
+        await this.moveIndex(record, 'status', previous.status, record.status);
+        await this.moveIndex(record, 'provider', previous.provider, record.provider);
+
+        return record;
+    }
+
+    /**
+     * Search the log, newest first. Uses the most selective index for the
+     * given filters and applies the remaining filters to the records.
+     */
+    async search(filters: MessageSearchFilters): Promise<MessageSearchResult> {
+        const limit = Math.min(Math.max(filters.limit || 50, 1), 200);
+        const indexKey = this.selectIndex(filters);
+
+        const max = filters.endDate ? filters.endDate.getTime() : Date.now();
+        const min = filters.startDate ? filters.startDate.getTime() : Date.now() - this.retentionSeconds * 1000;
+
+        // Cursor is "<score>:<id>" of the last message on the previous page
+        let cursorScore = max;
+        let cursorId: string | null = null;
+        if (filters.cursor) {
+            const separator = filters.cursor.indexOf(':');
+            if (!isValidSearchCursor(filters.cursor)) throw new Error('Invalid cursor');
+            cursorScore = Math.min(parseInt(filters.cursor.slice(0, separator)), max);
+            cursorId = filters.cursor.slice(separator + 1);
+        }
+
+        const messages: MessageRecord[] = [];
+        const batchSize = limit * 2;
+        let offset = 0;
+        let lastEntry: { score: number; value: string } | null = null;
+        let exhausted = false;
+
+        while (messages.length < limit && !exhausted) {
+            const entries = await this.redisClient.zRangeWithScores(indexKey, cursorScore, min, {
+                BY: 'SCORE',
+                REV: true,
+                LIMIT: { offset, count: batchSize },
+            });
+            offset += entries.length;
+            exhausted = entries.length < batchSize;
+
+            for (const entry of entries) {
+                // Ties on the cursor score are ordered by ID, descending
+                if (cursorId !== null && entry.score === cursorScore && entry.value >= cursorId) continue;
+
+                const record = await this.get(entry.value);
+                lastEntry = entry;
+
+                if (record && this.matches(record, filters)) {
+                    messages.push(record);
+                    if (messages.length === limit) break;
+                }
+            }
+        }
+
+        return {
+            messages,
+            nextCursor: messages.length === limit && lastEntry ? `${lastEntry.score}:${lastEntry.value}` : null,
+        };
+    }
+
+    private matches(record: MessageRecord, filters: MessageSearchFilters): boolean {
+        if (record.tenantId !== filters.tenantId) return false;
+        if (filters.recipient && !this.recipientsOf(record).some((address) => address.toLowerCase() === filters.recipient!.toLowerCase())) {
+            return false;
+        }
+        if (filters.channel && record.channel !== filters.channel) return false;
+        if (filters.provider && record.provider?.toLowerCase() !== filters.provider.toLowerCase()) return false;
+        if (filters.status && record.status !== filters.status) return false;
+        return true;
+    }
+
+    private selectIndex(filters: MessageSearchFilters): string {
+        const { tenantId } = filters;
+        if (filters.recipient) return this.indexKey(tenantId, 'recipient', filters.recipient);
+        if (filters.provider) return this.indexKey(tenantId, 'provider', filters.provider);
+        if (filters.status) return this.indexKey(tenantId, 'status', filters.status);
+        if (filters.channel) return this.indexKey(tenantId, 'channel', filters.channel);
+        return this.indexKey(tenantId);
+    }
+
+    private async addToIndexes(record: MessageRecord): Promise<void> {
+        const score = Date.parse(record.createdAt);
+        const keys = [
+            this.indexKey(record.tenantId),
+            ...this.recipientsOf(record).map((address) => this.indexKey(record.tenantId, 'recipient', address)),
+            this.indexKey(record.tenantId, 'channel', record.channel),
+            this.indexKey(record.tenantId, 'status', record.status),
+        ];
+        if (record.provider) keys.push(this.indexKey(record.tenantId, 'provider', record.provider));
+
+        for (const key of keys) {
+            await this.redisClient.zAdd(key, { score, value: record.id });
+            // Drop entries whose records have expired
+            await this.redisClient.zRemRangeByScore(key, 0, Date.now() - this.retentionSeconds * 1000);
+            await this.redisClient.expire(key, this.retentionSeconds);
+        }
+    }
+
+    /**
+     * Every address a message went to, cc and bcc included
+     */
+    private recipientsOf(record: MessageRecord): string[] {
+        return [...(Array.isArray(record.to) ? record.to : [record.to]), ...(record.cc || []), ...(record.bcc || [])];
+    }
+
+    private async moveIndex(
+        record: MessageRecord,
+        field: 'status' | 'provider',
+        from: string | undefined,
+        to: string | undefined
+    ): Promise<void> {
+        if (from === to) return;
+
+        if (from) await this.redisClient.zRem(this.indexKey(record.tenantId, field, from), record.id);
+        if (to) {
+            const key = this.indexKey(record.tenantId, field, to);
+            await this.redisClient.zAdd(key, { score: Date.parse(record.createdAt), value: record.id });
+            await this.redisClient.expire(key, this.retentionSeconds);
+        }
+    }
+
+    private async save(record: MessageRecord): Promise<void> {
+        // Keep the record for the full retention window counted from creation
+        const ttl = Math.max(
+            1,
+            this.retentionSeconds - Math.floor((Date.now() - Date.parse(record.createdAt)) / 1000)
+        );
+
+        await this.redisClient.setEx(this.messageKey(record.id), ttl, JSON.stringify(record));
+
+        if (record.provider && record.providerMessageId) {
+            await this.redisClient.setEx(this.providerKey(record.provider, record.providerMessageId), ttl, record.id);
+        }
+    }
+
+    private messageKey(id: string): string {
+        return `message:${id}`;
+    }
+
+    private providerKey(provider: string, providerMessageId: string): string {
+        return `message:provider:${provider.toLowerCase()}:${providerMessageId}`;
+    }
+
+    private indexKey(tenantId: string, field?: string, value?: string): string {
+        return field && value
+            ? `message:index:${tenantId}:${field}:${value.toLowerCase()}`
+            : `message:index:${tenantId}`;
+    }
+}
@@ -1,7 +1,50 @@
 import axios from 'axios';
 import nodemailer from 'nodemailer';
+import MailComposer from 'nodemailer/lib/mail-composer';
 import { createClient } from 'redis';
 import crypto from 'crypto';
+import { MessageQueue, MessageQueueConfig, QueueJob, QueueJobPayload } from './messageQueue';
+import { MessageScheduler, ScheduledMessage } from './messageScheduler';
+import { GHANA_COUNTRY_CODE, parsePhoneNumber, toE164 } from './phoneNumber';
+import { RoutingDecision, SMSRoutingRule, SMSRoutingTable, planRoute, providerCosts } from './smsRouting';
+import { SMSAnalysis, analyzeSMS, transliterateToGSM } from './smsEncoding';
+import { IdempotencyStore } from './idempotency';
+import { BalanceMonitor, BalanceMonitorConfig, BalanceStatus } from './balanceMonitor';
+import {
+    CircuitBreakerConfig,
+    CircuitBreakerEmailProvider,
+    CircuitBreakerSMSProvider,
+    CircuitStatus,
+    DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from './circuitBreaker';
+import {
+    instrumentRedisClient,
+    observeProviderCall,
+    otpCodesIssued,
+    otpLockouts,
+    otpRateLimited,
+    otpVerifications,
+} from './metrics';
+import { MessageStore, MessageChannel, MessageRecord, MessageSearchFilters, MessageSearchResult } from './messageStore';
+import { DeliveryReport, mnotifyMessageId } from './deliveryReports';
+import { ApiKeyStore, DEFAULT_TENANT } from './auth';
+import {
+    TemplateService,
+    TemplateVariables,
+    RenderedTemplate,
+    renderTemplate,
+    renderBuiltInTemplate,
+} from './templateService';
+import {
+    OTPPolicy,
+    OTP_ALPHABETS,
+    DEFAULT_OTP_POLICY,
+    normalizeOTPCode,
+    isValidOTPCode,
+    describeOTPFormat,
+    getOTPTTLMinutes,
+} from './otpPolicy';
+import { VERIFY_OTP_SCRIPT, SEND_LIMIT_SCRIPT, REISSUE_OTP_SCRIPT, RELEASE_SEND_SCRIPT } from './otpScripts';
 
 // ===========================
 // TYPES AND INTERFACES
@@ -11,49 +54,279 @@ export interface SendResult {
     success: boolean;
     message: string;
     data?: any;
+    provider?: string;
+    failedProviders?: ProviderFailure[];
+    retryable?: boolean; // true when a failure is transient and worth retrying
+    timedOut?: boolean; // the provider did not answer in time; the message may still have been sent
+    messageId?: string; // BlazeSend message ID, see MessageStore
+    route?: RoutingDecision; // SMS only: how the providers were chosen
+    segments?: number; // SMS only: billable segments, see analyzeSMS
+    providerMessageId?: string; // ID assigned by the delivering provider
+    providerMessageIds?: string[]; // Native bulk sends only: one ID per recipient, in request order
+}
+
+export interface ProviderBalance {
+    balance: number;
+    unit: string; // "credits" for prepaid SMS units, otherwise a currency code such as "GHS"
+}
+
+export interface ProviderFailure {
+    provider: string;
+    message: string;
 }
 
 export interface ISMSProvider {
     getProviderName(): string;
     sendSMS(to: string, message: string): Promise<SendResult>;
     sendOTP(to: string, otp: string): Promise<SendResult>;
+    // Optional native batching: one API call delivering the same text to many numbers
+    sendBulkSMS?(to: string[], message: string): Promise<SendResult>;
+    // Optional cheap authenticated request that throws when the provider is unreachable
+    checkHealth?(): Promise<void>;
+    // Optional account balance lookup, see BalanceMonitor
+    getBalance?(): Promise<ProviderBalance>;
+}
+
+export const VERIFICATION_PURPOSES = ['login', 'reset_password', 'transaction'] as const;
+
+export type VerificationPurpose = typeof VERIFICATION_PURPOSES[number];
+
+export type VerificationStatus = 'pending' | 'verified' | 'expired' | 'locked';
+
+export const OTP_CHANNELS = ['sms', 'email', 'voice', 'whatsapp'] as const;
+
+export type OTPChannel = typeof OTP_CHANNELS[number];
+
+/**
+ * Where an OTP is delivered: a channel and the phone number or email address on it
+ */
+export interface OTPDestination {
+    channel: OTPChannel;
+    identifier: string;
+}
+
+export interface OTPDeliveryFailure extends OTPDestination {
+    message: string;
+}
+
+/**
+ * One OTP sent for one purpose, verified by its ID plus the code
+ */
+export interface VerificationSession {
+    id: string;
+    tenantId: string;
+    purpose: VerificationPurpose;
+    channel: OTPChannel; // primary destination; its identifier carries the rate limit
+    identifier: string;
+    destinations: OTPDestination[]; // primary first, then fallbacks in order
+    activeDestination: number; // index of the destination the current code was sent to
+    policy: string;
+    status: VerificationStatus;
+    attempts: number;
+    attemptsRemaining: number;
+    resends: number;
+    context?: Record<string, any>; // caller data returned on verification, e.g. a transaction ID
+    createdAt: string;
+    expiresAt: string;
+    verifiedAt?: string;
+}
+
+export interface NewVerificationSession {
+    tenantId: string;
+    purpose: VerificationPurpose;
+    channel: OTPChannel;
+    identifier: string;
+    fallback?: OTPDestination[];
+    context?: Record<string, any>;
+    message?: OTPMessageOptions;
+}
+
+/**
+ * How an OTP message is rendered; kept with the session so resends look the same
+ */
+export interface OTPMessageOptions {
+    brandName?: string;
+    templateId?: string; // defaults to the built-in "otp" template
+    locale?: string;
+    variables?: TemplateVariables;
+}
+
+export interface SendLimitResult {
+    allowed: boolean;
+    retryAfter: number; // seconds until the next send is allowed
+    message?: string;
+    nextAt?: number; // when allowed: the cooldown end this send set (ms), see releaseSend
+}
+
+/**
+ * What an OTP is sent with: the rendered template for SMS and email,
+ * and the brand name a voice call announces
+ */
+interface OTPMessageContent {
+    template?: RenderedTemplate;
+    brandName: string;
+}
+
+export type OTPSendError = 'invalid_request' | 'not_found' | 'conflict' | 'rate_limited' | 'delivery_failed';
+
+export interface VerificationResult {
+    valid: boolean;
+    message: string;
+    session?: VerificationSession; // missing when the session does not exist
+}
+
+export interface OTPSendResult extends SendResult {
+    verificationId?: string;
+    expiresAt?: string;
+    retryAfter?: number; // seconds until another code may be sent
+    error?: OTPSendError;
+    destination?: OTPDestination; // where the code was delivered
+    failedDestinations?: OTPDeliveryFailure[];
+}
+
+export interface OTPVerifyResult extends SendResult {
+    verification?: VerificationSession;
+}
+
+export interface OTPSendOptions extends OTPMessageOptions {
+    tenantId?: string;
+    fallback?: OTPDestination[]; // tried in order when delivery fails or the code is not verified in time
+    policy?: string; // OTP policy name, defaults to "default"
+    context?: Record<string, any>;
+}
+
+export interface BulkRecipient {
+    to: string;
+    variables?: Record<string, string | number>;
+}
+
+export interface BulkRecipientResult extends SendResult {
+    to: string;
+}
+
+export interface SMSCostEstimate extends SMSAnalysis {
+    costs: { provider: string; costPerSegment?: number; estimatedCost?: number; rule?: string }[];
+    route?: RoutingDecision; // when a recipient is given
+}
+
+export interface BulkSendReport {
+    total: number;
+    sent: number;
+    failed: number;
+    results: BulkRecipientResult[];
+}
+
+export interface EmailAttachment {
+    filename: string;
+    content: string; // base64
+    contentType?: string;
+    contentId?: string; // embeds the file inline, referenced in the HTML as <img src="cid:...">
+}
+
+export interface EmailOptions {
+    cc?: string[];
+    bcc?: string[];
+    replyTo?: string;
+    headers?: Record<string, string>;
+    attachments?: EmailAttachment[];
 }
 
 export interface IEmailProvider {
     getProviderName(): string;
     sendEmail(
-        to: string,
+        to: string | string[],
         subject: string,
         htmlBody: string,
-        textBody: string
+        textBody: string,
+        options?: EmailOptions
     ): Promise<SendResult>;
     sendOTP(to: string, otp: string, brandName?: string): Promise<SendResult>;
+    // Optional cheap authenticated request that throws when the provider is unreachable
+    checkHealth?(): Promise<void>;
+}
+
+/**
+ * Places phone calls that read a code aloud, for phones where SMS is unreliable
+ */
+export interface IVoiceProvider {
+    getProviderName(): string;
+    sendOTP(to: string, otp: string, brandName?: string): Promise<SendResult>;
+}
+
+/**
+ * A pre-approved WhatsApp template message. Businesses can only start a
+ * conversation with a template; free-form text is allowed only within 24
+ * hours of the user's last message.
+ */
+export interface WhatsAppTemplateMessage {
+    name: string; // Cloud API: template name; Twilio: Content SID (HX...)
+    language?: string; // Cloud API only, e.g. "en_US"
+    parameters?: string[]; // body variables {{1}}, {{2}}, ...
+    copyCode?: string; // value copied by the template's copy-code button
+}
+
+export interface IWhatsAppProvider {
+    getProviderName(): string;
+    sendMessage(to: string, text: string): Promise<SendResult>;
+    sendTemplate(to: string, template: WhatsAppTemplateMessage): Promise<SendResult>;
+    sendOTP(to: string, otp: string): Promise<SendResult>;
 }
 
 // Provider Configuration Types
-export interface HubtelConfig {
+export interface ProviderRequestConfig {
+    timeoutMs?: number; // per-request timeout; MessagingService sets the provider's breaker timeout
+}
+
+export interface HubtelConfig extends ProviderRequestConfig {
     clientId: string;
     clientSecret: string;
     senderId: string;
+    prepaidAccountId?: string; // prepaid deposit account the SMS are charged to, for balance checks
 }
 
-export interface TwilioConfig {
+export interface TwilioConfig extends ProviderRequestConfig {
     accountSid: string;
     authToken: string;
     fromNumber: string;
+    statusCallbackUrl?: string; // delivery report webhook, e.g. https://host/api/webhooks/twilio
+}
+
+export interface TwilioVoiceConfig extends ProviderRequestConfig {
+    accountSid: string;
+    authToken: string;
+    fromNumber: string; // a voice-capable Twilio number
+    voice?: string; // Twilio <Say> voice, e.g. "alice" or "Polly.Amy"
+    language?: string; // <Say> language, e.g. "en-GB"
+}
+
+export interface WhatsAppCloudConfig extends ProviderRequestConfig {
+    accessToken: string;
+    phoneNumberId: string;
+    apiVersion?: string; // defaults to v21.0
+    otpTemplateName?: string; // approved authentication template with a copy-code button
+    otpTemplateLanguage?: string; // defaults to en_US
+    baseUrl?: string; // defaults to https://graph.facebook.com
+}
+
+export interface TwilioWhatsAppConfig extends ProviderRequestConfig {
+    accountSid: string;
+    authToken: string;
+    fromNumber: string; // WhatsApp-enabled sender, without the "whatsapp:" prefix
+    otpContentSid?: string; // approved authentication template (HX...) with a copy-code button
+    statusCallbackUrl?: string; // delivery report webhook, e.g. https://host/api/webhooks/twilio-whatsapp
 }
 
-export interface MnotifyConfig {
+export interface MnotifyConfig extends ProviderRequestConfig {
     apiKey: string;
     senderId: string;
 }
 
-export interface ArkeselConfig {
+export interface ArkeselConfig extends ProviderRequestConfig {
     apiKey: string;
     senderId: string;
 }
 
-export interface SMTPConfig {
+export interface SMTPConfig extends ProviderRequestConfig {
     host: string;
     port: number;
     username?: string;
@@ -63,6 +336,104 @@ export interface SMTPConfig {
     useTLS: boolean;
 }
 
+export interface SendGridConfig extends ProviderRequestConfig {
+    apiKey: string;
+    fromEmail: string;
+    fromName: string;
+    baseUrl?: string; // defaults to https://api.sendgrid.com
+}
+
+export interface SESConfig extends ProviderRequestConfig {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+    region: string;
+    fromEmail: string;
+    fromName: string;
+    endpoint?: string; // defaults to https://email.{region}.amazonaws.com
+}
+
+export interface MailgunConfig extends ProviderRequestConfig {
+    apiKey: string;
+    domain: string;
+    fromEmail: string;
+    fromName: string;
+    region?: 'us' | 'eu';
+    baseUrl?: string; // defaults to the regional Mailgun API host
+}
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Run `task` over `items` with at most `limit` in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index]);
+        }
+    });
+
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Classify a failed provider HTTP call: network errors, 429 and 5xx
+ * responses are transient; timeouts and other 4xx responses are not.
+ */
+export function isRetryableError(error: any): boolean {
+    if (isTimeoutError(error)) return false;
+    const status = error.response?.status;
+    if (!status) return true;
+    return status === 429 || status >= 500;
+}
+
+/**
+ * Whether a provider call timed out. The request may already have reached
+ * the provider, so sending again (or through another provider) could send twice.
+ */
+export function isTimeoutError(error: any): boolean {
+    return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+}
+
+/**
+ * Per-request timeout for a provider's HTTP and SMTP calls
+ */
+function requestTimeout(config: ProviderRequestConfig): number {
+    return config.timeoutMs ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.timeoutMs;
+}
+
+// Providers' own sendOTP methods use the default policy; MessagingService.sendOTP uses the selected one
+const OTP_TTL_MINUTES = getOTPTTLMinutes(DEFAULT_OTP_POLICY);
+
+/**
+ * OTP SMS text shared by all SMS providers, from the built-in "otp" template
+ */
+function formatOTPMessage(otp: string): string {
+    return renderBuiltInTemplate('otp', 'sms', { otp, ttlMinutes: OTP_TTL_MINUTES });
+}
+
+/**
+ * Read a balance from a provider response. Balance APIs often answer errors
+ * such as a bad API key with a 200, so anything that is not a number throws.
+ */
+function parseBalance(providerName: string, data: any, value: any): number {
+    const balance = typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : value;
+    if (typeof balance !== 'number' || !Number.isFinite(balance)) {
+        throw new Error(`${providerName} returned no balance: ${data?.message || data?.Message || JSON.stringify(data)}`);
+    }
+    return balance;
+}
+
 // ===========================
 // SMS PROVIDER IMPLEMENTATIONS
 // ===========================
@@ -72,9 +443,15 @@ export interface SMTPConfig {
  */
 export class HubtelProvider implements ISMSProvider {
     private config: HubtelConfig;
+    getBalance?: () => Promise<ProviderBalance>;
 
     constructor(config: HubtelConfig) {
         this.config = config;
+
+        // Balances are per prepaid account, so without one there is nothing to check
+        if (config.prepaidAccountId) {
+            this.getBalance = () => this.fetchPrepaidBalance(config.prepaidAccountId!);
+        }
     }
 
     getProviderName(): string {
@@ -91,10 +468,11 @@ export class HubtelProvider implements ISMSProvider {
                 'https://smsc.hubtel.com/v1/messages/send',
                 {
                     From: this.config.senderId,
-                    To: to,
+                    To: to.replace(/^\+/, ''),
                     Content: message,
                 },
                 {
+                    timeout: requestTimeout(this.config),
                     headers: {
                         Authorization: `Basic ${auth}`,
                         'Content-Type': 'application/json',
@@ -106,18 +484,34 @@ export class HubtelProvider implements ISMSProvider {
                 success: true,
                 message: 'SMS sent successfully via Hubtel',
                 data: response.data,
+                providerMessageId: response.data?.messageId ?? response.data?.MessageId,
             };
         } catch (error: any) {
             return {
                 success: false,
                 message: `Hubtel Error: ${error.response?.data?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
             };
         }
     }
 
     async sendOTP(to: string, otp: string): Promise<SendResult> {
-        const message = `Your verification code is: ${otp}. Valid for 10 minutes. Do not share this code with anyone.`;
-        return this.sendSMS(to, message);
+        return this.sendSMS(to, formatOTPMessage(otp));
+    }
+
+    /**
+     * Balance of the prepaid account SMS are charged to
+     */
+    private async fetchPrepaidBalance(prepaidAccountId: string): Promise<ProviderBalance> {
+        const auth = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+        const response = await axios.get(
+            `https://trnf.hubtel.com/api/inter-transfers/prepaid/${encodeURIComponent(prepaidAccountId)}`,
+            { headers: { Authorization: `Basic ${auth}` }, timeout: requestTimeout(this.config) }
+        );
+
+        const data = response.data?.Data ?? response.data?.data;
+        return { balance: parseBalance('Hubtel', response.data, data?.AvailableBalance ?? data?.Balance), unit: 'GHS' };
     }
 }
 
@@ -145,11 +539,15 @@ export class TwilioProvider implements ISMSProvider {
             params.append('From', this.config.fromNumber);
             params.append('To', to);
             params.append('Body', message);
+            if (this.config.statusCallbackUrl) {
+                params.append('StatusCallback', this.config.statusCallbackUrl);
+            }
 
             const response = await axios.post(
                 `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
                 params,
                 {
+                    timeout: requestTimeout(this.config),
                     headers: {
                         Authorization: `Basic ${auth}`,
                         'Content-Type': 'application/x-www-form-urlencoded',
@@ -161,18 +559,31 @@ export class TwilioProvider implements ISMSProvider {
                 success: true,
                 message: 'SMS sent successfully via Twilio',
                 data: response.data,
+                providerMessageId: response.data?.sid,
             };
         } catch (error: any) {
             return {
                 success: false,
                 message: `Twilio Error: ${error.response?.data?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
             };
         }
     }
 
     async sendOTP(to: string, otp: string): Promise<SendResult> {
-        const message = `Your verification code is: ${otp}. Valid for 10 minutes. Do not share this code with anyone.`;
-        return this.sendSMS(to, message);
+        return this.sendSMS(to, formatOTPMessage(otp));
+    }
+
+    /**
+     * Fetch the account, which checks both reachability and credentials
+     */
+    async checkHealth(): Promise<void> {
+        const auth = Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString('base64');
+        await axios.get(`https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}.json`, {
+            headers: { Authorization: `Basic ${auth}` },
+            timeout: requestTimeout(this.config),
+        });
     }
 }
 
@@ -191,38 +602,67 @@ export class MnotifyProvider implements ISMSProvider {
     }
 
     async sendSMS(to: string, message: string): Promise<SendResult> {
+        return this.sendBulkSMS([to], message);
+    }
+
+    /**
+     * Mnotify's quick SMS endpoint accepts an array of recipients natively
+     */
+    async sendBulkSMS(to: string[], message: string): Promise<SendResult> {
         try {
             const response = await axios.post(
                 'https://api.mnotify.com/api/sms/quick',
                 {
                     key: this.config.apiKey,
-                    to: [to],
+                    to: to.map((recipient) => recipient.replace(/^\+/, '')),
                     msg: message,
                     sender_id: this.config.senderId,
                 },
                 {
+                    timeout: requestTimeout(this.config),
                     headers: {
                         'Content-Type': 'application/json',
                     },
                 }
             );
 
+            const campaignId = response.data?.summary?._id;
+            const providerMessageIds = campaignId
+                ? to.map((recipient) => mnotifyMessageId(String(campaignId), recipient))
+                : undefined;
+
             return {
                 success: true,
                 message: 'SMS sent successfully via Mnotify',
                 data: response.data,
+                providerMessageId: to.length === 1 ? providerMessageIds?.[0] : undefined,
+                providerMessageIds,
             };
         } catch (error: any) {
             return {
                 success: false,
                 message: `Mnotify Error: ${error.response?.data?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
             };
         }
     }
 
     async sendOTP(to: string, otp: string): Promise<SendResult> {
-        const message = `Your verification code is: ${otp}. Valid for 10 minutes. Do not share this code with anyone.`;
-        return this.sendSMS(to, message);
+        return this.sendSMS(to, formatOTPMessage(otp));
+    }
+
+    async checkHealth(): Promise<void> {
+        await this.getBalance();
+    }
+
+    async getBalance(): Promise<ProviderBalance> {
+        const response = await axios.get('https://api.mnotify.com/api/balance/sms', {
+            params: { key: this.config.apiKey },
+            timeout: requestTimeout(this.config),
+        });
+
+        return { balance: parseBalance('Mnotify', response.data, response.data?.balance), unit: 'credits' };
     }
 }
 
@@ -246,13 +686,14 @@ export class ArkeselProvider implements ISMSProvider {
             const params = new URLSearchParams({
                 action: 'send-sms',
                 api_key: this.config.apiKey,
-                to: to,
+                to: to.replace(/^\+/, ''),
                 from: this.config.senderId,
                 sms: message,
             });
 
             const response = await axios.get(
-                `https://sms.arkesel.com/sms/api?${params.toString()}`
+                `https://sms.arkesel.com/sms/api?${params.toString()}`,
+                { timeout: requestTimeout(this.config) }
             );
 
             // Arkesel returns text response like "Successfully Sent" or JSON with status
@@ -264,6 +705,7 @@ export class ArkeselProvider implements ISMSProvider {
                     success: true,
                     message: 'SMS sent successfully via Arkesel',
                     data: response.data,
+                    providerMessageId: response.data?.data?.[0]?.id ?? response.data?.id,
                 };
             } else {
                 return {
@@ -275,20 +717,80 @@ export class ArkeselProvider implements ISMSProvider {
             return {
                 success: false,
                 message: `Arkesel Error: ${error.response?.data?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
             };
         }
     }
 
     async sendOTP(to: string, otp: string): Promise<SendResult> {
-        const message = `Your verification code is: ${otp}. Valid for 10 minutes. Do not share this code with anyone.`;
-        return this.sendSMS(to, message);
+        return this.sendSMS(to, formatOTPMessage(otp));
+    }
+
+    async checkHealth(): Promise<void> {
+        await this.getBalance();
+    }
+
+    async getBalance(): Promise<ProviderBalance> {
+        const response = await axios.get('https://sms.arkesel.com/sms/api', {
+            params: { action: 'check-balance', api_key: this.config.apiKey, response: 'json' },
+            timeout: requestTimeout(this.config),
+        });
+
+        return { balance: parseBalance('Arkesel', response.data, response.data?.balance), unit: 'credits' };
     }
 }
 
 // ===========================
-// EMAIL PROVIDER IMPLEMENTATION
+// EMAIL PROVIDER IMPLEMENTATIONS
 // ===========================
 
+/**
+ * OTP email bodies shared by all email providers, from the built-in "otp" template
+ */
+function generateOTPEmailText(otp: string, brandName: string): string {
+    return renderBuiltInTemplate('otp', 'emailText', { otp, brandName, ttlMinutes: OTP_TTL_MINUTES });
+}
+
+function generateOTPEmailHTML(otp: string, brandName: string): string {
+    return renderBuiltInTemplate('otp', 'emailHtml', { otp, brandName, ttlMinutes: OTP_TTL_MINUTES });
+}
+
+function recipientList(to: string | string[]): string[] {
+    return Array.isArray(to) ? to : [to];
+}
+
+/**
+ * Message fields for nodemailer (SMTP) and its MIME builder (SES raw messages)
+ */
+function toNodemailerMessage(
+    from: string,
+    to: string | string[],
+    subject: string,
+    htmlBody: string,
+    textBody: string,
+    options: EmailOptions
+): nodemailer.SendMailOptions {
+    return {
+        from,
+        to: recipientList(to),
+        cc: options.cc,
+        bcc: options.bcc,
+        replyTo: options.replyTo,
+        headers: options.headers,
+        subject,
+        text: textBody || undefined,
+        html: htmlBody,
+        attachments: options.attachments?.map((attachment) => ({
+            filename: attachment.filename,
+            content: attachment.content,
+            encoding: 'base64',
+            contentType: attachment.contentType,
+            cid: attachment.contentId,
+        })),
+    };
+}
+
 /**
  * SMTP Email Provider using nodemailer
  */
@@ -302,6 +804,9 @@ export class SMTPProvider implements IEmailProvider {
             host: config.host,
             port: config.port,
             secure: config.port === 465, // true for 465, false for other ports
+            connectionTimeout: requestTimeout(config),
+            greetingTimeout: requestTimeout(config),
+            socketTimeout: requestTimeout(config),
             auth:
                 config.username && config.password
                     ? {
@@ -317,19 +822,21 @@ export class SMTPProvider implements IEmailProvider {
     }
 
     async sendEmail(
-        to: string,
+        to: string | string[],
         subject: string,
         htmlBody: string,
-        textBody: string
+        textBody: string,
+        options: EmailOptions = {}
     ): Promise<SendResult> {
         try {
-            const info = await this.transporter.sendMail({
-                from: `"${this.config.fromName}" <${this.config.fromEmail}>`,
-                to: to,
-                subject: subject,
-                text: textBody,
-                html: htmlBody,
-            });
+            const info = await this.transporter.sendMail(toNodemailerMessage(
+                `"${this.config.fromName}" <${this.config.fromEmail}>`,
+                to,
+                subject,
+                htmlBody,
+                textBody,
+                options
+            ));
 
             return {
                 success: true,
@@ -340,452 +847,2647 @@ export class SMTPProvider implements IEmailProvider {
             return {
                 success: false,
                 message: `SMTP Error: ${error.message}`,
+                // 5xx SMTP replies are permanent rejections
+                retryable: !(error.responseCode >= 500) && !isTimeoutError(error),
+                timedOut: isTimeoutError(error),
             };
         }
     }
 
     async sendOTP(to: string, otp: string, brandName = 'BlazeSend'): Promise<SendResult> {
-        const htmlBody = this.generateOTPEmailHTML(otp, brandName);
-        const textBody = `Your ${brandName} verification code is: ${otp}\n\nThis code will expire in 10 minutes.\nDo not share this code with anyone.`;
-
-        return this.sendEmail(to, `${brandName} - Verification Code`, htmlBody, textBody);
-    }
-
-    private generateOTPEmailHTML(otp: string, brandName: string): string {
-        return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Verification Code</title>
-</head>
-<body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f4f4f4;">
-  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f4; padding: 20px 0;">
-    <tr>
-      <td align="center">
-        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-          <!-- Header -->
-          <tr>
-            <td style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 20px; text-align: center; border-radius: 8px 8px 0 0;">
-              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold;">${brandName}</h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 40px 30px;">
-              <h2 style="margin: 0 0 20px 0; color: #333333; font-size: 24px; text-align: center;">Verification Code</h2>
-              <p style="margin: 0 0 30px 0; color: #666666; font-size: 16px; line-height: 24px; text-align: center;">
-                Please use the following code to complete your verification:
-              </p>
-              
-              <!-- OTP Display -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center">
-                    <div style="background-color: #f8f9fa; border: 2px dashed #667eea; border-radius: 8px; padding: 20px; display: inline-block;">
-                      <span style="font-size: 36px; font-weight: bold; letter-spacing: 8px; color: #667eea; font-family: 'Courier New', monospace;">
-                        ${otp}
-                      </span>
-                    </div>
-                  </td>
-                </tr>
-              </table>
-              
-              <p style="margin: 30px 0 0 0; color: #666666; font-size: 14px; line-height: 20px; text-align: center;">
-                This code will expire in <strong>10 minutes</strong>.
-              </p>
-              <p style="margin: 10px 0 0 0; color: #999999; font-size: 13px; line-height: 18px; text-align: center;">
-                If you didn't request this code, please ignore this email.
-              </p>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="background-color: #f8f9fa; padding: 20px 30px; text-align: center; border-radius: 0 0 8px 8px;">
-              <p style="margin: 0; color: #999999; font-size: 12px;">
-                This is an automated message from ${brandName}. Please do not reply to this email.
-              </p>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-    `.trim();
+        return this.sendEmail(
+            to,
+            `${brandName} - Verification Code`,
+            generateOTPEmailHTML(otp, brandName),
+            generateOTPEmailText(otp, brandName)
+        );
     }
-}
-
-// ===========================
-// OTP SERVICE WITH REDIS
-// ===========================
-
-export class OTPService {
-    private redisClient: ReturnType<typeof createClient> | null = null;
-    private readonly OTP_EXPIRY = 600; // 10 minutes in seconds
-    private readonly MAX_ATTEMPTS = 3;
-    private readonly RATE_LIMIT_WINDOW = 3600; // 1 hour in seconds
-    private readonly MAX_OTP_PER_HOUR = 3;
-
-    async connect(redisConfig: {
-        host: string;
-        port: number;
-        db: number;
-        password?: string;
-        username?: string;
-    }): Promise<void> {
-        if (this.redisClient) return;
-
-        this.redisClient = createClient({
-            socket: {
-                host: redisConfig.host,
-                port: redisConfig.port,
-            },
-            username: redisConfig.username,
-            password: redisConfig.password,
-            database: redisConfig.db,
-        });
-
-        this.redisClient.on('error', (err) => console.error('Redis Client Error:', err));
 
-        await this.redisClient.connect();
-        console.log('✅ Connected to Redis');
+    /**
+     * Connect and authenticate without sending anything
+     */
+    async checkHealth(): Promise<void> {
+        await this.transporter.verify();
     }
+}
 
-    async disconnect(): Promise<void> {
-        if (this.redisClient) {
-            await this.redisClient.quit();
-            this.redisClient = null;
-        }
-    }
+/**
+ * SendGrid Email Provider using the v3 Mail Send API
+ */
+export class SendGridProvider implements IEmailProvider {
+    private config: SendGridConfig;
 
-    /**
-     * Generate a 6-digit OTP
-     */
-    generateOTP(): string {
-        return Math.floor(100000 + Math.random() * 900000).toString();
+    constructor(config: SendGridConfig) {
+        this.config = config;
     }
 
-    /**
-     * Hash OTP using SHA-256
-     */
-    private hashOTP(otp: string): string {
-        return crypto.createHash('sha256').update(otp).digest('hex');
+    getProviderName(): string {
+        return 'SendGrid';
     }
 
-    /**
-     * Check rate limit for OTP requests
-     */
-    async checkRateLimit(identifier: string): Promise<{ allowed: boolean; message?: string }> {
-        if (!this.redisClient) throw new Error('Redis not connected');
+    async sendEmail(
+        to: string | string[],
+        subject: string,
+        htmlBody: string,
+        textBody: string,
+        options: EmailOptions = {}
+    ): Promise<SendResult> {
+        try {
+            // SendGrid requires text/plain to come before text/html
+            const content = [];
+            if (textBody) content.push({ type: 'text/plain', value: textBody });
+            content.push({ type: 'text/html', value: htmlBody });
+
+            const addresses = (emails?: string[]) => emails?.length ? emails.map((email) => ({ email })) : undefined;
 
-        const rateLimitKey = `otp:ratelimit:${identifier}`;
-        const count = await this.redisClient.get(rateLimitKey);
+            const response = await axios.post(
+                `${this.config.baseUrl || 'https://api.sendgrid.com'}/v3/mail/send`,
+                {
+                    personalizations: [{
+                        to: addresses(recipientList(to)),
+                        cc: addresses(options.cc),
+                        bcc: addresses(options.bcc),
+                    }],
+                    from: { email: this.config.fromEmail, name: this.config.fromName },
+                    reply_to: options.replyTo ? { email: options.replyTo } : undefined,
+                    subject: subject,
+                    content: content,
+                    headers: options.headers,
+                    attachments: options.attachments?.map((attachment) => ({
+                        content: attachment.content,
+                        filename: attachment.filename,
+                        type: attachment.contentType,
+                        disposition: attachment.contentId ? 'inline' : 'attachment',
+                        content_id: attachment.contentId,
+                    })),
+                },
+                {
+                    timeout: requestTimeout(this.config),
+                    headers: {
+                        Authorization: `Bearer ${this.config.apiKey}`,
+                        'Content-Type': 'application/json',
+                    },
+                }
+            );
 
-        if (count && parseInt(count) >= this.MAX_OTP_PER_HOUR) {
             return {
-                allowed: false,
-                message: 'Rate limit exceeded. Maximum 3 OTPs per hour.',
+                success: true,
+                message: 'Email sent successfully via SendGrid',
+                data: { messageId: response.headers['x-message-id'] },
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                message: `SendGrid Error: ${error.response?.data?.errors?.[0]?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
             };
         }
+    }
 
-        return { allowed: true };
+    async sendOTP(to: string, otp: string, brandName = 'BlazeSend'): Promise<SendResult> {
+        return this.sendEmail(
+            to,
+            `${brandName} - Verification Code`,
+            generateOTPEmailHTML(otp, brandName),
+            generateOTPEmailText(otp, brandName)
+        );
     }
 
-    /**
-     * Increment rate limit counter
-     */
-    private async incrementRateLimit(identifier: string): Promise<void> {
-        if (!this.redisClient) throw new Error('Redis not connected');
+    async checkHealth(): Promise<void> {
+        await axios.get(`${this.config.baseUrl || 'https://api.sendgrid.com'}/v3/scopes`, {
+            headers: { Authorization: `Bearer ${this.config.apiKey}` },
+            timeout: requestTimeout(this.config),
+        });
+    }
+}
 
-        const rateLimitKey = `otp:ratelimit:${identifier}`;
-        const current = await this.redisClient.get(rateLimitKey);
+/**
+ * Amazon SES Email Provider using the SESv2 HTTP API with Signature V4
+ */
+export class SESProvider implements IEmailProvider {
+    private config: SESConfig;
 
-        if (!current) {
-            await this.redisClient.setEx(rateLimitKey, this.RATE_LIMIT_WINDOW, '1');
-        } else {
-            await this.redisClient.incr(rateLimitKey);
-        }
+    constructor(config: SESConfig) {
+        this.config = config;
     }
 
-    /**
-     * Store OTP in Redis with expiration
-     */
-    async storeOTP(identifier: string, otp: string): Promise<void> {
-        if (!this.redisClient) throw new Error('Redis not connected');
+    getProviderName(): string {
+        return 'AWS SES';
+    }
 
-        const hashedOTP = this.hashOTP(otp);
-        const otpKey = `otp:${identifier}`;
-        const attemptsKey = `otp:attempts:${identifier}`;
+    async sendEmail(
+        to: string | string[],
+        subject: string,
+        htmlBody: string,
+        textBody: string,
+        options: EmailOptions = {}
+    ): Promise<SendResult> {
+        try {
+            const from = `"${this.config.fromName}" <${this.config.fromEmail}>`;
+            const destination = {
+                ToAddresses: recipientList(to),
+                CcAddresses: options.cc,
+                BccAddresses: options.bcc,
+            };
+
+            let content: any;
+            if (options.attachments?.length || Object.keys(options.headers ?? {}).length) {
+                // Attachments and custom headers need a raw MIME message
+                const mime = await new MailComposer(
+                    toNodemailerMessage(from, to, subject, htmlBody, textBody, options)
+                ).compile().build();
+                content = { Raw: { Data: mime.toString('base64') } };
+            } else {
+                const body: any = {
+                    Html: { Data: htmlBody, Charset: 'UTF-8' },
+                };
+                if (textBody) body.Text = { Data: textBody, Charset: 'UTF-8' };
+
+                content = {
+                    Simple: {
+                        Subject: { Data: subject, Charset: 'UTF-8' },
+                        Body: body,
+                    },
+                };
+            }
+
+            const payload = JSON.stringify({
+                FromEmailAddress: from,
+                Destination: destination,
+                ReplyToAddresses: options.replyTo ? [options.replyTo] : undefined,
+                Content: content,
+            });
+
+            // Appended rather than resolved, so an endpoint mounted under a path keeps it
+            const endpoint = (this.config.endpoint || `https://email.${this.config.region}.amazonaws.com`).replace(/\/+$/, '');
+            const url = new URL(`${endpoint}/v2/email/outbound-emails`);
+
+            const response = await axios.post(url.toString(), payload, {
+                headers: this.signRequest('POST', url, payload),
+                timeout: requestTimeout(this.config),
+            });
+
+            return {
+                success: true,
+                message: 'Email sent successfully via AWS SES',
+                data: { messageId: response.data?.MessageId },
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                message: `AWS SES Error: ${error.response?.data?.message || error.response?.data?.Message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
+            };
+        }
+    }
+
+    async sendOTP(to: string, otp: string, brandName = 'BlazeSend'): Promise<SendResult> {
+        return this.sendEmail(
+            to,
+            `${brandName} - Verification Code`,
+            generateOTPEmailHTML(otp, brandName),
+            generateOTPEmailText(otp, brandName)
+        );
+    }
+
+    /**
+     * Build AWS Signature Version 4 headers for an SES request
+     */
+    private signRequest(method: string, url: URL, payload: string): Record<string, string> {
+        const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+        const dateStamp = amzDate.slice(0, 8);
+        const scope = `${dateStamp}/${this.config.region}/ses/aws4_request`;
+
+        const headers: Record<string, string> = {
+            'content-type': 'application/json',
+            host: url.host,
+            'x-amz-date': amzDate,
+        };
+        if (this.config.sessionToken) {
+            headers['x-amz-security-token'] = this.config.sessionToken;
+        }
+
+        const signedHeaders = Object.keys(headers).sort().join(';');
+        const canonicalHeaders = Object.keys(headers)
+            .sort()
+            .map((name) => `${name}:${headers[name]}\n`)
+            .join('');
+
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            url.searchParams.toString(),
+            canonicalHeaders,
+            signedHeaders,
+            crypto.createHash('sha256').update(payload).digest('hex'),
+        ].join('\n');
+
+        const stringToSign = [
+            'AWS4-HMAC-SHA256',
+            amzDate,
+            scope,
+            crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+        ].join('\n');
+
+        const hmac = (key: crypto.BinaryLike, data: string) =>
+            crypto.createHmac('sha256', key).update(data).digest();
+
+        const signingKey = hmac(
+            hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 'ses'),
+            'aws4_request'
+        );
+        const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        // Host is set by the HTTP client from the URL
+        const { host, ...requestHeaders } = headers;
+
+        return {
+            ...requestHeaders,
+            Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        };
+    }
+}
+
+/**
+ * Mailgun Email Provider using the Messages API
+ */
+export class MailgunProvider implements IEmailProvider {
+    private config: MailgunConfig;
+
+    constructor(config: MailgunConfig) {
+        this.config = config;
+    }
+
+    getProviderName(): string {
+        return 'Mailgun';
+    }
+
+    async sendEmail(
+        to: string | string[],
+        subject: string,
+        htmlBody: string,
+        textBody: string,
+        options: EmailOptions = {}
+    ): Promise<SendResult> {
+        try {
+            const auth = Buffer.from(`api:${this.config.apiKey}`).toString('base64');
+            const baseUrl = this.config.baseUrl ||
+                (this.config.region === 'eu' ? 'https://api.eu.mailgun.net' : 'https://api.mailgun.net');
+
+            const form = new FormData();
+            form.append('from', `${this.config.fromName} <${this.config.fromEmail}>`);
+            recipientList(to).forEach((recipient) => form.append('to', recipient));
+            options.cc?.forEach((recipient) => form.append('cc', recipient));
+            options.bcc?.forEach((recipient) => form.append('bcc', recipient));
+            form.append('subject', subject);
+            form.append('html', htmlBody);
+            if (textBody) form.append('text', textBody);
+            if (options.replyTo) form.append('h:Reply-To', options.replyTo);
+            for (const [name, value] of Object.entries(options.headers || {})) {
+                form.append(`h:${name}`, value);
+            }
+
+            // Mailgun uses an inline file's name as its content ID
+            for (const attachment of options.attachments || []) {
+                form.append(
+                    attachment.contentId ? 'inline' : 'attachment',
+                    new Blob([Buffer.from(attachment.content, 'base64')], { type: attachment.contentType || 'application/octet-stream' }),
+                    attachment.contentId || attachment.filename
+                );
+            }
+
+            // axios sets the multipart Content-Type with its boundary
+            const response = await axios.post(
+                `${baseUrl}/v3/${this.config.domain}/messages`,
+                form,
+                {
+                    timeout: requestTimeout(this.config),
+                    headers: {
+                        Authorization: `Basic ${auth}`,
+                    },
+                }
+            );
+
+            return {
+                success: true,
+                message: 'Email sent successfully via Mailgun',
+                data: { messageId: response.data?.id },
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                message: `Mailgun Error: ${error.response?.data?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
+            };
+        }
+    }
+
+    async sendOTP(to: string, otp: string, brandName = 'BlazeSend'): Promise<SendResult> {
+        return this.sendEmail(
+            to,
+            `${brandName} - Verification Code`,
+            generateOTPEmailHTML(otp, brandName),
+            generateOTPEmailText(otp, brandName)
+        );
+    }
+
+    async checkHealth(): Promise<void> {
+        const auth = Buffer.from(`api:${this.config.apiKey}`).toString('base64');
+        const baseUrl = this.config.baseUrl ||
+            (this.config.region === 'eu' ? 'https://api.eu.mailgun.net' : 'https://api.mailgun.net');
+
+        await axios.get(`${baseUrl}/v3/domains/${this.config.domain}`, {
+            headers: { Authorization: `Basic ${auth}` },
+            timeout: requestTimeout(this.config),
+        });
+    }
+}
+
+// ===========================
+// VOICE PROVIDER IMPLEMENTATIONS
+// ===========================
+
+function escapeXML(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * TwiML for an OTP call. Each character is spoken on its own with a pause
+ * after it, and the whole code is read twice.
+ */
+export function buildOTPVoiceTwiML(
+    otp: string,
+    brandName = 'BlazeSend',
+    options: { voice?: string; language?: string } = {}
+): string {
+    const attributes = [
+        options.voice ? ` voice="${escapeXML(options.voice)}"` : '',
+        options.language ? ` language="${escapeXML(options.language)}"` : '',
+    ].join('');
+    const say = (text: string) => `<Say${attributes}>${escapeXML(text)}</Say>`;
+    const readCode = [...otp].map((char) => `${say(char)}<Pause length="1"/>`).join('');
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Response>',
+        '<Pause length="1"/>',
+        say(`Hello. Your ${brandName} verification code is:`),
+        '<Pause length="1"/>',
+        readCode,
+        say('Once again, your code is:'),
+        '<Pause length="1"/>',
+        readCode,
+        say('Do not share this code with anyone. Goodbye.'),
+        '</Response>',
+    ].join('');
+}
+
+/**
+ * Twilio Voice Provider - places a call with inline TwiML, so no webhook
+ * has to serve the code back to Twilio
+ */
+export class TwilioVoiceProvider implements IVoiceProvider {
+    private config: TwilioVoiceConfig;
+
+    constructor(config: TwilioVoiceConfig) {
+        this.config = config;
+    }
+
+    getProviderName(): string {
+        return 'Twilio Voice';
+    }
+
+    async sendOTP(to: string, otp: string, brandName = 'BlazeSend'): Promise<SendResult> {
+        try {
+            const auth = Buffer.from(
+                `${this.config.accountSid}:${this.config.authToken}`
+            ).toString('base64');
+
+            const params = new URLSearchParams();
+            params.append('From', this.config.fromNumber);
+            params.append('To', to.startsWith('+') ? to : `+${to}`);
+            params.append('Twiml', buildOTPVoiceTwiML(otp, brandName, {
+                voice: this.config.voice,
+                language: this.config.language,
+            }));
+
+            const response = await axios.post(
+                `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Calls.json`,
+                params,
+                {
+                    timeout: requestTimeout(this.config),
+                    headers: {
+                        Authorization: `Basic ${auth}`,
+                        'Content-Type': 'application/x-www-form-urlencoded',
+                    },
+                }
+            );
+
+            return {
+                success: true,
+                message: 'Call placed successfully via Twilio Voice',
+                data: { callSid: response.data?.sid, status: response.data?.status },
+                providerMessageId: response.data?.sid,
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                message: `Twilio Voice Error: ${error.response?.data?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
+            };
+        }
+    }
+}
+
+// ===========================
+// WHATSAPP PROVIDER IMPLEMENTATIONS
+// ===========================
+
+/**
+ * WhatsApp Cloud API Provider - Meta's hosted WhatsApp Business API
+ */
+export class WhatsAppCloudProvider implements IWhatsAppProvider {
+    private config: WhatsAppCloudConfig;
+
+    constructor(config: WhatsAppCloudConfig) {
+        this.config = config;
+    }
+
+    getProviderName(): string {
+        return 'WhatsApp Cloud API';
+    }
+
+    async sendMessage(to: string, text: string): Promise<SendResult> {
+        return this.send(to, {
+            type: 'text',
+            text: { body: text, preview_url: false },
+        });
+    }
+
+    async sendTemplate(to: string, template: WhatsAppTemplateMessage): Promise<SendResult> {
+        const components: any[] = [];
+
+        if (template.parameters && template.parameters.length > 0) {
+            components.push({
+                type: 'body',
+                parameters: template.parameters.map((text) => ({ type: 'text', text })),
+            });
+        }
+
+        // Authentication templates model the copy-code button as a URL button
+        if (template.copyCode) {
+            components.push({
+                type: 'button',
+                sub_type: 'url',
+                index: '0',
+                parameters: [{ type: 'text', text: template.copyCode }],
+            });
+        }
+
+        return this.send(to, {
+            type: 'template',
+            template: {
+                name: template.name,
+                language: { code: template.language || this.config.otpTemplateLanguage || 'en_US' },
+                components,
+            },
+        });
+    }
+
+    async sendOTP(to: string, otp: string): Promise<SendResult> {
+        if (!this.config.otpTemplateName) {
+            return {
+                success: false,
+                message: 'WhatsApp Cloud API Error: no OTP template configured',
+            };
+        }
+
+        return this.sendTemplate(to, {
+            name: this.config.otpTemplateName,
+            language: this.config.otpTemplateLanguage,
+            parameters: [otp],
+            copyCode: otp,
+        });
+    }
+
+    private async send(to: string, message: Record<string, any>): Promise<SendResult> {
+        try {
+            const baseUrl = this.config.baseUrl || 'https://graph.facebook.com';
+            const response = await axios.post(
+                `${baseUrl}/${this.config.apiVersion || 'v21.0'}/${this.config.phoneNumberId}/messages`,
+                {
+                    messaging_product: 'whatsapp',
+                    recipient_type: 'individual',
+                    to: to.replace(/^\+/, ''),
+                    ...message,
+                },
+                {
+                    timeout: requestTimeout(this.config),
+                    headers: {
+                        Authorization: `Bearer ${this.config.accessToken}`,
+                        'Content-Type': 'application/json',
+                    },
+                }
+            );
+
+            return {
+                success: true,
+                message: 'WhatsApp message sent successfully via WhatsApp Cloud API',
+                data: response.data,
+                providerMessageId: response.data?.messages?.[0]?.id,
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                message: `WhatsApp Cloud API Error: ${error.response?.data?.error?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
+            };
+        }
+    }
+}
+
+/**
+ * Twilio WhatsApp Provider - WhatsApp through Twilio's Messages API.
+ * Templates are Twilio Content API templates, referenced by Content SID.
+ */
+export class TwilioWhatsAppProvider implements IWhatsAppProvider {
+    private config: TwilioWhatsAppConfig;
+
+    constructor(config: TwilioWhatsAppConfig) {
+        this.config = config;
+    }
+
+    getProviderName(): string {
+        return 'Twilio WhatsApp';
+    }
+
+    async sendMessage(to: string, text: string): Promise<SendResult> {
+        const params = new URLSearchParams();
+        params.append('Body', text);
+        return this.send(to, params);
+    }
+
+    async sendTemplate(to: string, template: WhatsAppTemplateMessage): Promise<SendResult> {
+        // Twilio authentication templates take the code as {{1}} and copy it from there
+        const parameters = template.parameters && template.parameters.length > 0
+            ? template.parameters
+            : template.copyCode ? [template.copyCode] : [];
+
+        const params = new URLSearchParams();
+        params.append('ContentSid', template.name);
+        if (parameters.length > 0) {
+            params.append('ContentVariables', JSON.stringify(
+                Object.fromEntries(parameters.map((value, index) => [String(index + 1), value]))
+            ));
+        }
+
+        return this.send(to, params);
+    }
+
+    async sendOTP(to: string, otp: string): Promise<SendResult> {
+        if (!this.config.otpContentSid) {
+            return {
+                success: false,
+                message: 'Twilio WhatsApp Error: no OTP template configured',
+            };
+        }
+
+        return this.sendTemplate(to, { name: this.config.otpContentSid, copyCode: otp });
+    }
+
+    private async send(to: string, params: URLSearchParams): Promise<SendResult> {
+        try {
+            const auth = Buffer.from(
+                `${this.config.accountSid}:${this.config.authToken}`
+            ).toString('base64');
+
+            params.append('From', `whatsapp:${this.config.fromNumber}`);
+            params.append('To', `whatsapp:${to.startsWith('+') ? to : `+${to}`}`);
+            if (this.config.statusCallbackUrl) {
+                params.append('StatusCallback', this.config.statusCallbackUrl);
+            }
+
+            const response = await axios.post(
+                `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
+                params,
+                {
+                    timeout: requestTimeout(this.config),
+                    headers: {
+                        Authorization: `Basic ${auth}`,
+                        'Content-Type': 'application/x-www-form-urlencoded',
+                    },
+                }
+            );
+
+            return {
+                success: true,
+                message: 'WhatsApp message sent successfully via Twilio WhatsApp',
+                data: response.data,
+                providerMessageId: response.data?.sid,
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                message: `Twilio WhatsApp Error: ${error.response?.data?.message || error.message}`,
+                retryable: isRetryableError(error),
+                timedOut: isTimeoutError(error),
+            };
+        }
+    }
+}
+
+// ===========================
+// OTP SERVICE WITH REDIS
+// ===========================
+
+/**
+ * Server-side secret for OTP HMACs. The ID is stored with each code so
+ * secrets can be rotated while codes are still pending.
+ */
+export interface OTPHashKey {
+    id: string;
+    secret: string;
+}
+
+/**
+ * OTP codes and their verification sessions.
+ *
+ * Keys:
+ *   otp:{tenant}:session:{id}            Verification session (hash), including the hashed code
+ *   otp:{tenant}:ratelimit:{identifier}  Codes sent to an identifier in the current hour
+ *   otp:{tenant}:cooldown:{purpose}:{identifier}  Sends in the current cooldown streak for one purpose and when the next is allowed
+ *   otp:fallbacks                        Sessions due to move to their next destination, scored by due time
+ */
+export class OTPService {
+    private redisClient: RedisClient | null = null;
+    private readonly FALLBACK_KEY = 'otp:fallbacks';
+    private readonly RATE_LIMIT_WINDOW = 3600; // 1 hour in seconds
+    private readonly SESSION_RETENTION = 24 * 3600; // keep finished sessions for status lookups
+    private policies = new Map<string, OTPPolicy>([[DEFAULT_OTP_POLICY.name, DEFAULT_OTP_POLICY]]);
+    private hashKeys: OTPHashKey[] = [];
+    private defaultCountryCode = GHANA_COUNTRY_CODE;
+
+    async connect(redisConfig: {
+        host: string;
+        port: number;
+        db: number;
+        password?: string;
+        username?: string;
+    }): Promise<void> {
+        if (this.redisClient) return;
+
+        this.redisClient = instrumentRedisClient(createClient({
+            socket: {
+                host: redisConfig.host,
+                port: redisConfig.port,
+            },
+            username: redisConfig.username,
+            password: redisConfig.password,
+            database: redisConfig.db,
+        }));
+
+        this.redisClient.on('error', (err) => console.error('Redis Client Error:', err));
+
+        await this.redisClient.connect();
+        console.log('✅ Connected to Redis');
+    }
+
+    /**
+     * Shared Redis connection for other services (e.g. the send queue)
+     */
+    getRedisClient(): RedisClient {
+        if (!this.redisClient) throw new Error('Redis not connected');
+        return this.redisClient;
+    }
+
+    async disconnect(): Promise<void> {
+        if (this.redisClient) {
+            await this.redisClient.quit();
+            this.redisClient = null;
+        }
+    }
+
+    /**
+     * Register named policies. A policy named "default" replaces the built-in default.
+     */
+    setPolicies(policies: OTPPolicy[]): void {
+        for (const policy of policies) {
+            this.policies.set(policy.name, policy);
+        }
+    }
+
+    getPolicy(name: string = DEFAULT_OTP_POLICY.name): OTPPolicy | null {
+        return this.policies.get(name) || null;
+    }
+
+    getPolicies(): OTPPolicy[] {
+        return [...this.policies.values()];
+    }
+
+    /**
+     * Set the HMAC secrets for stored codes. The first key signs new codes;
+     * the others stay valid for verifying codes issued before a rotation.
+     */
+    setHashKeys(keys: OTPHashKey[]): void {
+        if (keys.length === 0) {
+            console.warn('⚠️  OTP_HMAC_SECRETS is not set. Using a random secret; pending codes will not survive a restart.');
+            keys = [{ id: 'ephemeral', secret: crypto.randomBytes(32).toString('hex') }];
+        }
+
+        this.hashKeys = keys;
+    }
+
+    /**
+     * Country assumed for phone numbers in national format (e.g. 0241234567)
+     */
+    setDefaultCountryCode(countryCode: string): void {
+        this.defaultCountryCode = countryCode;
+    }
+
+    /**
+     * Build a tenant-namespaced OTP key, e.g. otp:{tenant}:session:{id}
+     */
+    private key(tenantId: string, type: 'session' | 'ratelimit' | 'cooldown', id: string): string {
+        return `otp:${tenantId}:${type}:${id}`;
+    }
+
+    /**
+     * Phone numbers are keyed in E.164, so 0241234567 and +233241234567 share a rate limit
+     */
+    private identifierKey(identifier: string): string {
+        if (identifier.includes('@')) return identifier;
+        return toE164(identifier, this.defaultCountryCode) ?? identifier;
+    }
+
+    /**
+     * Generate a code with the policy's length and alphabet
+     */
+    generateOTP(policy: OTPPolicy = DEFAULT_OTP_POLICY): string {
+        const alphabet = OTP_ALPHABETS[policy.alphabet];
+        let otp = '';
+
+        for (let i = 0; i < policy.length; i++) {
+            otp += alphabet[crypto.randomInt(alphabet.length)];
+        }
+
+        return otp;
+    }
+
+    /**
+     * HMAC-SHA256 of the code with a server secret, bound to the tenant,
+     * identifier and session so a stored value cannot be brute-forced or reused elsewhere
+     */
+    private hashOTP(otp: string, session: { id: string; tenantId: string; identifier: string }, key: OTPHashKey): string {
+        return crypto
+            .createHmac('sha256', key.secret)
+            .update(`${session.tenantId}:${session.identifier}:${session.id}:${otp}`)
+            .digest('hex');
+    }
+
+    private getSigningKey(): OTPHashKey {
+        if (this.hashKeys.length === 0) this.setHashKeys([]);
+        return this.hashKeys[0];
+    }
+
+    /**
+     * Count an OTP send against the identifier's resend cooldown for the
+     * purpose and its hourly quota across all purposes. Checking and counting
+     * happen in one atomic step, so parallel sends cannot get around either.
+     */
+    async reserveSend(
+        identifier: string,
+        purpose: VerificationPurpose,
+        tenantId: string = DEFAULT_TENANT,
+        policy: OTPPolicy = DEFAULT_OTP_POLICY
+    ): Promise<SendLimitResult> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        const now = Date.now();
+        const [allowed, reason, seconds] = (await this.redisClient.eval(SEND_LIMIT_SCRIPT, {
+            keys: this.sendLimitKeys(identifier, purpose, tenantId),
+            arguments: [
+                String(policy.maxPerHour),
+                String(this.RATE_LIMIT_WINDOW),
+                String(now),
+                String(policy.resendCooldownSeconds),
+            ],
+        })) as [number, string, number];
+
+        if (allowed) {
+            return { allowed: true, retryAfter: seconds, nextAt: now + seconds * 1000 };
+        }
+
+        otpRateLimited.inc({ reason });
+
+        return {
+            allowed: false,
+            retryAfter: seconds,
+            message: reason === 'cooldown'
+                ? `Please wait ${seconds} second(s) before requesting another OTP.`
+                : `Rate limit exceeded. Maximum ${policy.maxPerHour} OTPs per hour.`,
+        };
+    }
+
+    /**
+     * Undo an allowed reservation whose code was never sent, e.g. because
+     * the session stopped being pending in the meantime or every delivery failed
+     */
+    async releaseSend(
+        identifier: string,
+        purpose: VerificationPurpose,
+        tenantId: string,
+        reservation: SendLimitResult
+    ): Promise<void> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+        if (!reservation.allowed || reservation.nextAt === undefined) return;
+
+        await this.redisClient.eval(RELEASE_SEND_SCRIPT, {
+            keys: this.sendLimitKeys(identifier, purpose, tenantId),
+            arguments: [String(reservation.nextAt)],
+        });
+    }
+
+    private sendLimitKeys(identifier: string, purpose: VerificationPurpose, tenantId: string): string[] {
+        return [
+            this.key(tenantId, 'ratelimit', this.identifierKey(identifier)),
+            this.key(tenantId, 'cooldown', `${purpose}:${this.identifierKey(identifier)}`),
+        ];
+    }
+
+    /**
+     * Start a verification session for a freshly generated code
+     */
+    async createSession(
+        input: NewVerificationSession,
+        otp: string,
+        policy: OTPPolicy = DEFAULT_OTP_POLICY
+    ): Promise<VerificationSession> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        const now = Date.now();
+        const session: VerificationSession = {
+            id: crypto.randomUUID(),
+            tenantId: input.tenantId,
+            purpose: input.purpose,
+            channel: input.channel,
+            identifier: input.identifier,
+            destinations: [{ channel: input.channel, identifier: input.identifier }, ...(input.fallback || [])],
+            activeDestination: 0,
+            policy: policy.name,
+            status: 'pending',
+            attempts: 0,
+            attemptsRemaining: policy.maxAttempts,
+            resends: 0,
+            context: input.context,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + policy.ttlSeconds * 1000).toISOString(),
+        };
+
+        const signingKey = this.getSigningKey();
+        const sessionKey = this.key(session.tenantId, 'session', session.id);
+        await this.redisClient.hSet(sessionKey, {
+            id: session.id,
+            tenantId: session.tenantId,
+            purpose: session.purpose,
+            channel: session.channel,
+            identifier: session.identifier,
+            destinations: JSON.stringify(session.destinations),
+            activeDestination: '0',
+            policy: session.policy,
+            status: session.status,
+            attempts: '0',
+            context: JSON.stringify(session.context || {}),
+            createdAt: session.createdAt,
+            expiresAt: session.expiresAt,
+            message: JSON.stringify(input.message || {}),
+            keyId: signingKey.id,
+            hash: this.hashOTP(otp, session, signingKey),
+        });
+
+        // Keep the session past its expiry so its status can still be looked up
+        await this.redisClient.expire(sessionKey, policy.ttlSeconds + this.SESSION_RETENTION);
+        otpCodesIssued.inc({ channel: session.channel, kind: 'new' });
+
+        return session;
+    }
+
+    /**
+     * Replace a pending session's code with a new one sent to the given
+     * destination (resend or fallback). Returns null if the session is no longer pending.
+     */
+    async reissueCode(
+        session: VerificationSession,
+        otp: string,
+        policy: OTPPolicy = DEFAULT_OTP_POLICY,
+        destination: number = session.activeDestination
+    ): Promise<VerificationSession | null> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        const signingKey = this.getSigningKey();
+        const now = Date.now();
+        const expiresAt = new Date(now + policy.ttlSeconds * 1000).toISOString();
+
+        const replaced = await this.redisClient.eval(REISSUE_OTP_SCRIPT, {
+            keys: [this.key(session.tenantId, 'session', session.id)],
+            arguments: [
+                this.hashOTP(otp, session, signingKey),
+                signingKey.id,
+                expiresAt,
+                new Date(now).toISOString(),
+                String(policy.ttlSeconds + this.SESSION_RETENTION),
+                String(destination),
+            ],
+        });
+
+        if (!replaced) return null;
+        otpCodesIssued.inc({ channel: session.destinations[destination].channel, kind: 'reissue' });
+
+        return {
+            ...session,
+            activeDestination: destination,
+            attempts: 0,
+            attemptsRemaining: policy.maxAttempts,
+            resends: session.resends + 1,
+            expiresAt,
+        };
+    }
+
+    /**
+     * Record that the current code went to another destination, after
+     * delivery to the previous one failed
+     */
+    async setActiveDestination(session: VerificationSession, destination: number): Promise<void> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        await this.redisClient.hSet(
+            this.key(session.tenantId, 'session', session.id),
+            'activeDestination',
+            String(destination)
+        );
+    }
+
+    /**
+     * Move the session to its next destination at `dueAt` (ms) unless it is
+     * verified first. Scheduling again replaces the earlier due time.
+     */
+    async scheduleFallback(session: VerificationSession, dueAt: number): Promise<void> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        await this.redisClient.zAdd(this.FALLBACK_KEY, { score: dueAt, value: `${session.tenantId}:${session.id}` });
+    }
+
+    /**
+     * Take the sessions whose fallback is due. Each entry is handed to one caller only.
+     */
+    async claimDueFallbacks(): Promise<{ tenantId: string; id: string }[]> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        const due = await this.redisClient.zRangeByScore(this.FALLBACK_KEY, 0, Date.now());
+        const claimed: { tenantId: string; id: string }[] = [];
+
+        for (const entry of due) {
+            if (await this.redisClient.zRem(this.FALLBACK_KEY, entry)) {
+                const separator = entry.lastIndexOf(':');
+                claimed.push({ tenantId: entry.slice(0, separator), id: entry.slice(separator + 1) });
+            }
+        }
+
+        return claimed;
+    }
+
+    /**
+     * Template options the session's code was first sent with, reused for resends
+     */
+    async getMessageOptions(tenantId: string, id: string): Promise<OTPMessageOptions> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        const message = await this.redisClient.hGet(this.key(tenantId, 'session', id), 'message');
+        return message ? JSON.parse(message) : {};
+    }
+
+    async getSession(tenantId: string, id: string): Promise<VerificationSession | null> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        const fields = await this.redisClient.hGetAll(this.key(tenantId, 'session', id));
+        return fields.id ? this.toSession(fields) : null;
+    }
+
+    /**
+     * Verify a code against its session. A session accepts one correct code;
+     * it is locked once the policy's attempts are used up.
+     */
+    async verifyOTP(
+        tenantId: string,
+        id: string,
+        otp: string,
+        expected: { purpose?: VerificationPurpose; policy?: string } = {}
+    ): Promise<VerificationResult> {
+        if (!this.redisClient) throw new Error('Redis not connected');
+
+        const sessionKey = this.key(tenantId, 'session', id);
+        const fields = await this.redisClient.hGetAll(sessionKey);
+        if (!fields.id) {
+            return this.verificationOutcome('not_found', {
+                valid: false,
+                message: 'Verification not found',
+            });
+        }
+
+        const session = this.toSession(fields);
+
+        // A code issued for one flow must not complete another
+        if (expected.purpose && expected.purpose !== session.purpose) {
+            return this.verificationOutcome('wrong_purpose', {
+                valid: false,
+                message: `Verification was not issued for purpose: ${expected.purpose}`,
+                session,
+            });
+        }
+
+        if (expected.policy && expected.policy !== session.policy) {
+            return this.verificationOutcome('wrong_policy', {
+                valid: false,
+                message: `OTP was not issued under policy: ${expected.policy}`,
+                session,
+            });
+        }
+
+        switch (session.status) {
+            case 'verified':
+                return this.verificationOutcome('already_verified', { valid: false, message: 'OTP has already been used', session });
+            case 'expired':
+                return this.verificationOutcome('expired', { valid: false, message: 'OTP expired', session });
+            case 'locked':
+                return this.verificationOutcome('locked', { valid: false, message: 'Maximum verification attempts exceeded', session });
+        }
+
+        // Verify against the policy the code was issued under, even if it has since been reconfigured away
+        const policy = this.getPolicy(session.policy) || DEFAULT_OTP_POLICY;
+        const code = normalizeOTPCode(otp, policy);
+        if (!isValidOTPCode(code, policy)) {
+            return this.verificationOutcome('invalid_format', {
+                valid: false,
+                message: `Invalid OTP format. Must be ${describeOTPFormat(policy)}`,
+                session,
+            });
+        }
+
+        // Hash with the key the code was issued under; a retired key means the code can no longer be checked
+        const hashKey = this.hashKeys.find((key) => key.id === fields.keyId);
+        if (!hashKey) {
+            return this.verificationOutcome('expired', {
+                valid: false,
+                message: 'OTP expired',
+                session: { ...session, status: 'expired', attemptsRemaining: 0 },
+            });
+        }
+
+        // Compare and update in one atomic step, see VERIFY_OTP_SCRIPT
+        const verifiedAt = new Date().toISOString();
+        const [outcome, attempts] = (await this.redisClient.eval(VERIFY_OTP_SCRIPT, {
+            keys: [sessionKey],
+            arguments: [this.hashOTP(code, session, hashKey), String(policy.maxAttempts), verifiedAt],
+        })) as [string, number];
+
+        switch (outcome) {
+            case 'verified':
+                return this.verificationOutcome('verified', {
+                    valid: true,
+                    message: 'OTP verified successfully',
+                    session: { ...session, status: 'verified', attemptsRemaining: 0, verifiedAt },
+                });
+            case 'not_found':
+                return this.verificationOutcome('not_found', { valid: false, message: 'Verification not found' });
+            case 'already_verified':
+                return this.verificationOutcome('already_verified', {
+                    valid: false,
+                    message: 'OTP has already been used',
+                    session: { ...session, status: 'verified', attemptsRemaining: 0 },
+                });
+            case 'locked':
+                return this.verificationOutcome('locked', {
+                    valid: false,
+                    message: 'Maximum verification attempts exceeded',
+                    session: { ...session, status: 'locked', attempts, attemptsRemaining: 0 },
+                });
+        }
+
+        const remainingAttempts = Math.max(policy.maxAttempts - attempts, 0);
+        if (remainingAttempts === 0) otpLockouts.inc();
+
+        return this.verificationOutcome('invalid', {
+            valid: false,
+            message: `Invalid OTP. ${remainingAttempts} attempt(s) remaining`,
+            session: {
+                ...session,
+                status: remainingAttempts === 0 ? 'locked' : session.status,
+                attempts,
+                attemptsRemaining: remainingAttempts,
+            },
+        });
+    }
+
+    private verificationOutcome(outcome: string, result: VerificationResult): VerificationResult {
+        otpVerifications.inc({ outcome });
+        return result;
+    }
+
+    /**
+     * Build a session from its Redis hash; pending sessions past their expiry report "expired"
+     */
+    private toSession(fields: Record<string, string>): VerificationSession {
+        const policy = this.getPolicy(fields.policy) || DEFAULT_OTP_POLICY;
+        const attempts = parseInt(fields.attempts || '0');
+        const status = fields.status === 'pending' && Date.parse(fields.expiresAt) <= Date.now()
+            ? 'expired'
+            : fields.status as VerificationStatus;
+
+        return {
+            id: fields.id,
+            tenantId: fields.tenantId,
+            purpose: fields.purpose as VerificationPurpose,
+            channel: fields.channel as OTPChannel,
+            identifier: fields.identifier,
+            destinations: fields.destinations
+                ? JSON.parse(fields.destinations)
+                : [{ channel: fields.channel as OTPChannel, identifier: fields.identifier }],
+            activeDestination: parseInt(fields.activeDestination || '0'),
+            policy: fields.policy,
+            status,
+            attempts,
+            attemptsRemaining: status === 'pending' ? Math.max(policy.maxAttempts - attempts, 0) : 0,
+            resends: parseInt(fields.resends || '0'),
+            context: fields.context ? JSON.parse(fields.context) : undefined,
+            createdAt: fields.createdAt,
+            expiresAt: fields.expiresAt,
+            verifiedAt: fields.verifiedAt,
+        };
+    }
+}
+
+// ===========================
+// SMS SERVICE MANAGER
+// ===========================
+
+export class SMSService {
+    private readonly BULK_BATCH_SIZE = 500; // recipients per native batch request
+    private providers: ISMSProvider[] = [];
+    private routingTable: SMSRoutingTable | null = null;
+
+    setProvider(provider: ISMSProvider): void {
+        this.setProviders([provider]);
+    }
+
+    /**
+     * Set an ordered failover chain. The first provider is tried first and
+     * the next one is only used when the previous send fails.
+     */
+    setProviders(providers: ISMSProvider[]): void {
+        this.providers = [...providers];
+        console.log(`📱 SMS Provider chain set to: ${this.getProviderChain().join(' → ') || 'None'}`);
+    }
+
+    getActiveProviderName(): string {
+        return this.providers[0]?.getProviderName() || 'None';
+    }
+
+    getProviderChain(): string[] {
+        return this.providers.map((provider) => provider.getProviderName());
+    }
+
+    getProviders(): ISMSProvider[] {
+        return [...this.providers];
+    }
+
+    /**
+     * Route sends by destination prefix or network (see planRoute)
+     */
+    setRoutingTable(table: SMSRoutingTable): void {
+        this.routingTable = table;
+    }
+
+    /**
+     * A provider is unhealthy while its circuit breaker is open
+     */
+    isHealthy(providerName: string): boolean {
+        const provider = this.providers.find((candidate) => candidate.getProviderName() === providerName);
+        return !(provider instanceof CircuitBreakerSMSProvider) || provider.breaker.getState() !== 'open';
+    }
+
+    getCircuitStatus(): CircuitStatus[] {
+        return this.providers
+            .filter((provider): provider is CircuitBreakerSMSProvider => provider instanceof CircuitBreakerSMSProvider)
+            .map((provider) => provider.breaker.getStatus());
+    }
+
+    /**
+     * Run the health check of every provider that has one
+     */
+    async probeProviders(): Promise<void> {
+        await Promise.all(this.providers.map((provider) =>
+            provider instanceof CircuitBreakerSMSProvider ? provider.probe() : undefined
+        ));
+    }
+
+    getProviderHealth(): Record<string, boolean> {
+        return Object.fromEntries(this.getProviderChain().map((name) => [name, this.isHealthy(name)]));
+    }
+
+    async sendSMS(to: string, message: string): Promise<SendResult> {
+        const route = this.routeFor(await this.getRoutingRules(), to);
+        const result = await this.sendRouted(route, (provider) => provider.sendSMS(to, message));
+        return { ...result, segments: analyzeSMS(message).segments };
+    }
+
+    async sendOTP(to: string, otp: string): Promise<SendResult> {
+        const route = this.routeFor(await this.getRoutingRules(), to);
+        const result = await this.sendRouted(route, (provider) => provider.sendOTP(to, otp));
+        return { ...result, segments: analyzeSMS(formatOTPMessage(otp)).segments };
+    }
+
+    /**
+     * Encoding, segment count and per-provider cost of a message, optionally
+     * for a specific recipient
+     */
+    async estimate(message: string, to?: string): Promise<SMSCostEstimate> {
+        const analysis = analyzeSMS(message);
+        const rules = await this.getRoutingRules();
+
+        return {
+            ...analysis,
+            costs: providerCosts(rules, to, this.getProviderChain()).map((cost) => ({
+                ...cost,
+                estimatedCost: cost.costPerSegment === undefined
+                    ? undefined
+                    : Math.round(cost.costPerSegment * analysis.segments * 1e6) / 1e6,
+            })),
+            route: to ? this.routeFor(rules, to) : undefined,
+        };
+    }
+
+    private async getRoutingRules(): Promise<SMSRoutingRule[]> {
+        if (!this.routingTable) return [];
+
+        try {
+            return await this.routingTable.list();
+        } catch (error: any) {
+            // Routing is an optimisation; fall back to the failover chain
+            console.error('SMS routing table unavailable:', error.message);
+            return [];
+        }
+    }
+
+    private routeFor(rules: SMSRoutingRule[], to: string): RoutingDecision {
+        return planRoute(rules, to, this.getProviderChain(), (name) => this.isHealthy(name));
+    }
+
+    private async sendRouted(
+        route: RoutingDecision,
+        send: (provider: ISMSProvider) => Promise<SendResult>
+    ): Promise<SendResult> {
+        const providers = route.providers.map((name) =>
+            this.providers.find((provider) => provider.getProviderName() === name)!
+        );
+
+        return { ...(await this.sendWithFailover(send, providers)), route };
+    }
+
+    /**
+     * Send many messages. Recipients sharing the same text and first routed
+     * provider go through that provider's native batching when it has one;
+     * everything else (and any batch that fails) is sent individually,
+     * `concurrency` at a time. A batch that times out is not resent.
+     */
+    async sendBulkSMS(
+        messages: { to: string; message: string }[],
+        concurrency: number
+    ): Promise<SendResult[]> {
+        const results: SendResult[] = new Array(messages.length);
+        const rules = await this.getRoutingRules();
+        const routes = messages.map(({ to }) => this.routeFor(rules, to));
+        const individual: number[] = [];
+
+        const groups = new Map<string, { provider: ISMSProvider; message: string; indexes: number[] }>();
+        messages.forEach(({ message }, index) => {
+            const provider = this.providers.find((candidate) => candidate.getProviderName() === routes[index].providers[0]);
+            if (!provider?.sendBulkSMS) {
+                individual.push(index);
+                return;
+            }
+
+            const key = `${provider.getProviderName()}\n${message}`;
+            const group = groups.get(key) || { provider, message, indexes: [] };
+            group.indexes.push(index);
+            groups.set(key, group);
+        });
+
+        for (const { provider, message, indexes } of groups.values()) {
+            if (indexes.length === 1) {
+                individual.push(indexes[0]);
+                continue;
+            }
+
+            for (let start = 0; start < indexes.length; start += this.BULK_BATCH_SIZE) {
+                const batch = indexes.slice(start, start + this.BULK_BATCH_SIZE);
+                let result: SendResult;
+
+                try {
+                    result = await observeProviderCall(
+                        'sms',
+                        provider.getProviderName(),
+                        () => provider.sendBulkSMS!(batch.map((index) => messages[index].to), message),
+                        batch.length
+                    );
+                } catch (error: any) {
+                    result = { success: false, message: `${provider.getProviderName()} Error: ${error.message}` };
+                }
+
+                if (result.success) {
+                    const { providerMessageIds, ...shared } = result;
+                    batch.forEach((index, position) => {
+                        results[index] = {
+                            ...shared,
+                            provider: provider.getProviderName(),
+                            providerMessageId: providerMessageIds?.[position],
+                            failedProviders: [],
+                            route: routes[index],
+                        };
+                    });
+                } else if (result.timedOut) {
+                    // The batch may have gone out, so sending it again could send every message twice
+                    console.warn(`⚠️  Bulk SMS batch via ${provider.getProviderName()} timed out: ${result.message}`);
+                    const failedProviders = [{ provider: provider.getProviderName(), message: result.message }];
+                    batch.forEach((index) => {
+                        results[index] = {
+                            success: false,
+                            message: result.message,
+                            failedProviders,
+                            retryable: false,
+                            timedOut: true,
+                            route: routes[index],
+                        };
+                    });
+                } else {
+                    console.warn(`⚠️  Bulk SMS batch via ${provider.getProviderName()} failed: ${result.message}`);
+                    individual.push(...batch);
+                }
+            }
+        }
+
+        await mapWithConcurrency(individual, concurrency, async (index) => {
+            const { to, message } = messages[index];
+            results[index] = await this.sendRouted(routes[index], (provider) => provider.sendSMS(to, message));
+        });
+
+        return results.map((result, index) => ({ ...result, segments: analyzeSMS(messages[index].message).segments }));
+    }
+
+    /**
+     * Try each provider in order until one succeeds
+     */
+    private async sendWithFailover(
+        send: (provider: ISMSProvider) => Promise<SendResult>,
+        providers: ISMSProvider[] = this.providers
+    ): Promise<SendResult> {
+        if (providers.length === 0) {
+            return {
+                success: false,
+                message: 'No SMS provider configured',
+            };
+        }
+
+        const failedProviders: ProviderFailure[] = [];
+        let retryable = false;
+
+        for (const provider of providers) {
+            const providerName = provider.getProviderName();
+            let result: SendResult;
+
+            try {
+                result = await observeProviderCall('sms', providerName, () => send(provider));
+            } catch (error: any) {
+                result = { success: false, message: `${providerName} Error: ${error.message}`, retryable: true };
+            }
+
+            if (result.success) {
+                return { ...result, provider: providerName, failedProviders };
+            }
+
+            console.warn(`⚠️  SMS via ${providerName} failed: ${result.message}`);
+            failedProviders.push({ provider: providerName, message: result.message });
+
+            // The provider may have sent it anyway, so trying the next one could send it twice
+            if (result.timedOut) {
+                return { success: false, message: result.message, failedProviders, retryable: false, timedOut: true };
+            }
+
+            retryable = retryable || result.retryable === true;
+        }
+
+        return {
+            success: false,
+            message: failedProviders.length === 1
+                ? failedProviders[0].message
+                : `All SMS providers failed: ${failedProviders.map((f) => f.message).join('; ')}`,
+            failedProviders,
+            retryable,
+        };
+    }
+
+    /**
+     * Factory method to create provider from configuration
+     */
+    static createProvider(
+        providerName: string,
+        credentials: any
+    ): ISMSProvider | null {
+        switch (providerName.toLowerCase()) {
+            case 'hubtel':
+                return new HubtelProvider(credentials as HubtelConfig);
+            case 'twilio':
+                return new TwilioProvider(credentials as TwilioConfig);
+            case 'mnotify':
+                return new MnotifyProvider(credentials as MnotifyConfig);
+            case 'arkesel':
+                return new ArkeselProvider(credentials as ArkeselConfig);
+            default:
+                return null;
+        }
+    }
+}
+
+// ===========================
+// EMAIL SERVICE MANAGER
+// ===========================
+
+export class EmailService {
+    private activeProvider: IEmailProvider | null = null;
+
+    setProvider(provider: IEmailProvider): void {
+        this.activeProvider = provider;
+        console.log(`📧 Email Provider set to: ${provider.getProviderName()}`);
+    }
+
+    getActiveProviderName(): string {
+        return this.activeProvider?.getProviderName() || 'None';
+    }
+
+    getCircuitStatus(): CircuitStatus | null {
+        return this.activeProvider instanceof CircuitBreakerEmailProvider
+            ? this.activeProvider.breaker.getStatus()
+            : null;
+    }
+
+    async probeProvider(): Promise<void> {
+        if (this.activeProvider instanceof CircuitBreakerEmailProvider) {
+            await this.activeProvider.probe();
+        }
+    }
+
+    async sendEmail(
+        to: string | string[],
+        subject: string,
+        htmlBody: string,
+        textBody: string,
+        options?: EmailOptions
+    ): Promise<SendResult> {
+        if (!this.activeProvider) {
+            return {
+                success: false,
+                message: 'No email provider configured',
+            };
+        }
+
+        const provider = this.activeProvider;
+        return observeProviderCall('email', provider.getProviderName(), () =>
+            provider.sendEmail(to, subject, htmlBody, textBody, options)
+        );
+    }
+
+    async sendOTP(to: string, otp: string, brandName?: string): Promise<SendResult> {
+        if (!this.activeProvider) {
+            return {
+                success: false,
+                message: 'No email provider configured',
+            };
+        }
+
+        const provider = this.activeProvider;
+        return observeProviderCall('email', provider.getProviderName(), () => provider.sendOTP(to, otp, brandName));
+    }
+
+    /**
+     * Factory method to create provider from configuration
+     */
+    static createProvider(
+        providerName: string,
+        credentials: any
+    ): IEmailProvider | null {
+        switch (providerName.toLowerCase()) {
+            case 'smtp':
+                return new SMTPProvider(credentials as SMTPConfig);
+            case 'sendgrid':
+                return new SendGridProvider(credentials as SendGridConfig);
+            case 'aws-ses':
+            case 'ses':
+                return new SESProvider(credentials as SESConfig);
+            case 'mailgun':
+                return new MailgunProvider(credentials as MailgunConfig);
+            default:
+                return null;
+        }
+    }
+}
+
+// ===========================
+// VOICE SERVICE MANAGER
+// ===========================
+
+export class VoiceService {
+    private activeProvider: IVoiceProvider | null = null;
+
+    setProvider(provider: IVoiceProvider): void {
+        this.activeProvider = provider;
+        console.log(`📞 Voice Provider set to: ${provider.getProviderName()}`);
+    }
+
+    getActiveProviderName(): string {
+        return this.activeProvider?.getProviderName() || 'None';
+    }
+
+    async sendOTP(to: string, otp: string, brandName?: string): Promise<SendResult> {
+        if (!this.activeProvider) {
+            return {
+                success: false,
+                message: 'No voice provider configured',
+            };
+        }
+
+        const provider = this.activeProvider;
+        return observeProviderCall('voice', provider.getProviderName(), () => provider.sendOTP(to, otp, brandName));
+    }
+
+    /**
+     * Factory method to create provider from configuration
+     */
+    static createProvider(
+        providerName: string,
+        credentials: any
+    ): IVoiceProvider | null {
+        switch (providerName.toLowerCase()) {
+            case 'twilio':
+                return new TwilioVoiceProvider(credentials as TwilioVoiceConfig);
+            default:
+                return null;
+        }
+    }
+}
+
+// ===========================
+// WHATSAPP SERVICE MANAGER
+// ===========================
+
+export class WhatsAppService {
+    private activeProvider: IWhatsAppProvider | null = null;
+
+    setProvider(provider: IWhatsAppProvider): void {
+        this.activeProvider = provider;
+        console.log(`💬 WhatsApp Provider set to: ${provider.getProviderName()}`);
+    }
+
+    getActiveProviderName(): string {
+        return this.activeProvider?.getProviderName() || 'None';
+    }
+
+    async sendMessage(to: string, text: string): Promise<SendResult> {
+        return this.send((provider) => provider.sendMessage(to, text));
+    }
+
+    async sendTemplate(to: string, template: WhatsAppTemplateMessage): Promise<SendResult> {
+        return this.send((provider) => provider.sendTemplate(to, template));
+    }
+
+    async sendOTP(to: string, otp: string): Promise<SendResult> {
+        return this.send((provider) => provider.sendOTP(to, otp));
+    }
+
+    private async send(call: (provider: IWhatsAppProvider) => Promise<SendResult>): Promise<SendResult> {
+        const provider = this.activeProvider;
+        if (!provider) return this.notConfigured();
+        return observeProviderCall('whatsapp', provider.getProviderName(), () => call(provider));
+    }
+
+    private notConfigured(): SendResult {
+        return {
+            success: false,
+            message: 'No WhatsApp provider configured',
+        };
+    }
+
+    /**
+     * Factory method to create provider from configuration
+     */
+    static createProvider(
+        providerName: string,
+        credentials: any
+    ): IWhatsAppProvider | null {
+        switch (providerName.toLowerCase()) {
+            case 'cloud':
+            case 'meta':
+                return new WhatsAppCloudProvider(credentials as WhatsAppCloudConfig);
+            case 'twilio':
+                return new TwilioWhatsAppProvider(credentials as TwilioWhatsAppConfig);
+            default:
+                return null;
+        }
+    }
+}
+
+// ===========================
+// UNIFIED MESSAGING SERVICE
+// ===========================
+
+export class MessagingService {
+    private smsService: SMSService;
+    private emailService: EmailService;
+    private voiceService: VoiceService;
+    private whatsappService: WhatsAppService;
+    private otpService: OTPService;
+    private messageQueue: MessageQueue | null = null;
+    private messageScheduler: MessageScheduler | null = null;
+    private messageStore: MessageStore | null = null;
+    private apiKeyStore: ApiKeyStore | null = null;
+    private idempotencyStore: IdempotencyStore | null = null;
+    private templateService: TemplateService | null = null;
+    private smsRoutingTable: SMSRoutingTable | null = null;
+    private balanceMonitor: BalanceMonitor | null = null;
+    private defaultCountryCode = GHANA_COUNTRY_CODE;
+    private circuitBreakerConfig: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG;
+    private providerTimeouts: Record<string, number> = {};
+    private fallbackTimer: NodeJS.Timeout | null = null;
+    private fallbackTicking = false;
+    private healthProbeTimer: NodeJS.Timeout | null = null;
+    private healthProbing = false;
+
+    constructor() {
+        this.smsService = new SMSService();
+        this.emailService = new EmailService();
+        this.voiceService = new VoiceService();
+        this.whatsappService = new WhatsAppService();
+        this.otpService = new OTPService();
+    }
+
+    /**
+     * Initialize the messaging service
+     */
+    async initialize(config: {
+        redis: { host: string; port: number; db: number; password?: string; username?: string };
+        sms?: { provider: string; credentials: any }[];
+        email?: { provider: string; credentials: any };
+        voice?: { provider: string; credentials: any };
+        whatsapp?: { provider: string; credentials: any };
+        queue?: MessageQueueConfig;
+        messageRetentionDays?: number;
+        idempotencyTTLSeconds?: number;
+        otpPolicies?: OTPPolicy[];
+        otpHashKeys?: OTPHashKey[];
+        otpFallbackPollMs?: number;
+        schedulerPollMs?: number;
+        defaultCountryCode?: string;
+        circuitBreaker?: Partial<CircuitBreakerConfig>;
+        providerTimeouts?: Record<string, number>; // per-provider timeoutMs, keyed by lowercase provider name
+        healthProbeIntervalMs?: number; // 0 disables health probes
+        balanceMonitor?: BalanceMonitorConfig;
+    }): Promise<void> {
+        // Connect to Redis
+        await this.otpService.connect(config.redis);
+        this.otpService.setPolicies(config.otpPolicies || []);
+        this.otpService.setHashKeys(config.otpHashKeys || []);
+        if (config.defaultCountryCode) {
+            this.defaultCountryCode = config.defaultCountryCode;
+            this.otpService.setDefaultCountryCode(config.defaultCountryCode);
+        }
+        this.messageStore = new MessageStore(this.otpService.getRedisClient(), config.messageRetentionDays);
+        this.apiKeyStore = new ApiKeyStore(this.otpService.getRedisClient());
+        this.idempotencyStore = new IdempotencyStore(
+            this.otpService.getRedisClient(),
+            config.idempotencyTTLSeconds || 24 * 3600
+        );
+        this.templateService = new TemplateService(this.otpService.getRedisClient());
+        this.smsRoutingTable = new SMSRoutingTable(this.otpService.getRedisClient());
+        this.smsService.setRoutingTable(this.smsRoutingTable);
+        this.circuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config.circuitBreaker };
+        this.providerTimeouts = config.providerTimeouts || {};
+
+        // Initialize SMS provider chain if configured (first entry is primary)
+        if (config.sms && config.sms.length > 0) {
+            const smsProviders: ISMSProvider[] = [];
+
+            for (const smsConfig of config.sms) {
+                const smsProvider = SMSService.createProvider(
+                    smsConfig.provider,
+                    this.withRequestTimeout(smsConfig.provider, smsConfig.credentials)
+                );
+                if (smsProvider) {
+                    smsProviders.push(this.withSMSCircuitBreaker(smsConfig.provider, smsProvider));
+                } else {
+                    console.warn(`⚠️  Unknown SMS provider skipped: ${smsConfig.provider}`);
+                }
+            }
+
+            if (smsProviders.length > 0) {
+                this.smsService.setProviders(smsProviders);
+            }
+        }
+
+        // Initialize Email provider if configured
+        if (config.email) {
+            const emailProvider = EmailService.createProvider(
+                config.email.provider,
+                this.withRequestTimeout(config.email.provider, config.email.credentials)
+            );
+            if (emailProvider) {
+                this.emailService.setProvider(new CircuitBreakerEmailProvider(
+                    emailProvider,
+                    this.circuitBreakerFor(config.email.provider)
+                ));
+            }
+        }
+
+        // Initialize Voice provider if configured
+        if (config.voice) {
+            const voiceProvider = VoiceService.createProvider(
+                config.voice.provider,
+                this.withRequestTimeout(config.voice.provider, config.voice.credentials)
+            );
+            if (voiceProvider) {
+                this.voiceService.setProvider(voiceProvider);
+            } else {
+                console.warn(`⚠️  Unknown voice provider skipped: ${config.voice.provider}`);
+            }
+        }
+
+        // Initialize WhatsApp provider if configured
+        if (config.whatsapp) {
+            const whatsappProvider = WhatsAppService.createProvider(
+                config.whatsapp.provider,
+                this.withRequestTimeout(config.whatsapp.provider, config.whatsapp.credentials)
+            );
+            if (whatsappProvider) {
+                this.whatsappService.setProvider(whatsappProvider);
+            } else {
+                console.warn(`⚠️  Unknown WhatsApp provider skipped: ${config.whatsapp.provider}`);
+            }
+        }
+
+        // Start the async send queue on the shared Redis connection if configured
+        if (config.queue) {
+            this.messageQueue = new MessageQueue(
+                this.otpService.getRedisClient(),
+                config.queue,
+                (job) => this.deliverQueuedMessage(job),
+                (job) => this.recordQueuedFailure(job)
+            );
+            await this.messageQueue.start();
+        }
+
+        // Send scheduled messages when they are due
+        this.messageScheduler = new MessageScheduler(
+            this.otpService.getRedisClient(),
+            { pollIntervalMs: config.schedulerPollMs || 1000 },
+            (message) => this.dispatchScheduledMessage(message),
+            (message) => this.recordScheduledFailure(message)
+        );
+        this.messageScheduler.start();
+
+        // Move unverified OTPs on to their fallback destinations
+        this.fallbackTimer = setInterval(() => {
+            this.processOTPFallbacks().catch((error) => console.error('OTP fallback worker error:', error));
+        }, config.otpFallbackPollMs || 5000);
+
+        // Watch SMS provider balances so running out of credit is noticed before sends fail
+        this.balanceMonitor = new BalanceMonitor(
+            this.otpService.getRedisClient(),
+            config.balanceMonitor || { pollIntervalMs: 0, thresholds: {} },
+            () => this.smsService.getProviders()
+        );
+        this.balanceMonitor.start();
+
+        // Check provider health in the background so open circuits recover without traffic
+        const healthProbeIntervalMs = config.healthProbeIntervalMs ?? 60 * 1000;
+        if (healthProbeIntervalMs > 0) {
+            this.healthProbeTimer = setInterval(() => {
+                this.probeProviders().catch((error) => console.error('Provider health probe error:', error));
+            }, healthProbeIntervalMs);
+        }
+    }
+
+    /**
+     * Cleanup resources
+     */
+    async cleanup(): Promise<void> {
+        this.messageQueue?.stop();
+        this.messageScheduler?.stop();
+        this.balanceMonitor?.stop();
+        if (this.fallbackTimer) {
+            clearInterval(this.fallbackTimer);
+            this.fallbackTimer = null;
+        }
+        if (this.healthProbeTimer) {
+            clearInterval(this.healthProbeTimer);
+            this.healthProbeTimer = null;
+        }
+        await this.otpService.disconnect();
+    }
+
+    /**
+     * Queue an SMS for asynchronous delivery
+     */
+    async enqueueSMS(to: string, message: string, tenantId: string = DEFAULT_TENANT): Promise<SendResult> {
+        return this.enqueue({ channel: 'sms', to, message, tenantId });
+    }
+
+    /**
+     * Queue an email for asynchronous delivery
+     */
+    async enqueueEmail(
+        to: string | string[],
+        subject: string,
+        htmlBody: string,
+        textBody: string,
+        tenantId: string = DEFAULT_TENANT,
+        options?: EmailOptions
+    ): Promise<SendResult> {
+        return this.enqueue({ channel: 'email', to, subject, htmlBody, textBody, options, tenantId });
+    }
+
+    /**
+     * Look up a queued message by ID within a tenant
+     */
+    async getQueuedMessage(id: string, tenantId: string = DEFAULT_TENANT): Promise<QueueJob | null> {
+        const job = this.messageQueue ? await this.messageQueue.getJob(id) : null;
+        return job && job.payload.tenantId === tenantId ? job : null;
+    }
+
+    /**
+     * Get queue depth counters, or null when async delivery is disabled
+     */
+    async getQueueStats(): Promise<{ pending: number; processing: number; delayed: number; dead: number } | null> {
+        return this.messageQueue ? this.messageQueue.getStats() : null;
+    }
+
+    isQueueEnabled(): boolean {
+        return this.messageQueue !== null;
+    }
+
+    private async enqueue(payload: QueueJobPayload): Promise<SendResult> {
+        if (!this.messageQueue) {
+            return {
+                success: false,
+                message: 'Async delivery is not enabled',
+            };
+        }
+
+        const job = await this.messageQueue.enqueue(payload);
+        await this.getMessageStore().create({
+            id: job.id,
+            tenantId: payload.tenantId,
+            channel: payload.channel,
+            to: payload.channel === 'sms' ? payload.to : recipientList(payload.to),
+            status: 'queued',
+            ...this.describeContent(payload),
+        });
+
+        return {
+            success: true,
+            message: `${payload.channel === 'sms' ? 'SMS' : 'Email'} queued for delivery`,
+            messageId: job.id,
+            data: { messageId: job.id, status: job.status },
+        };
+    }
+
+    private async deliverQueuedMessage(job: QueueJob): Promise<SendResult> {
+        const { payload } = job;
+        const result = payload.channel === 'sms'
+            ? await this.smsService.sendSMS(payload.to, payload.message)
+            : await this.emailService.sendEmail(payload.to, payload.subject, payload.htmlBody, payload.textBody, payload.options);
+
+        // Failures are only final once the queue gives up, see recordQueuedFailure
+        if (result.success) {
+            await this.getMessageStore().updateStatus(job.id, 'sent', {
+                provider: result.provider || this.getProviderName(payload.channel),
+                providerMessageId: result.providerMessageId,
+            });
+        }
+
+        return { ...result, messageId: job.id };
+    }
+
+    private async recordQueuedFailure(job: QueueJob): Promise<void> {
+        await this.getMessageStore().updateStatus(job.id, 'failed', { detail: job.lastError });
+    }
+
+    // ===========================
+    // SCHEDULED DELIVERY
+    // ===========================
+
+    /**
+     * Schedule an SMS for delivery at `sendAt`
+     */
+    async scheduleSMS(to: string, message: string, sendAt: Date, tenantId: string = DEFAULT_TENANT): Promise<SendResult> {
+        return this.schedule({ channel: 'sms', to, message, tenantId }, sendAt);
+    }
+
+    /**
+     * Schedule an email for delivery at `sendAt`
+     */
+    async scheduleEmail(
+        to: string | string[],
+        subject: string,
+        htmlBody: string,
+        textBody: string,
+        sendAt: Date,
+        tenantId: string = DEFAULT_TENANT,
+        options?: EmailOptions
+    ): Promise<SendResult> {
+        return this.schedule({ channel: 'email', to, subject, htmlBody, textBody, options, tenantId }, sendAt);
+    }
+
+    /**
+     * Look up a scheduled message by ID within a tenant
+     */
+    async getScheduledMessage(id: string, tenantId: string = DEFAULT_TENANT): Promise<ScheduledMessage | null> {
+        const message = await this.getMessageScheduler().get(id);
+        return message && message.payload.tenantId === tenantId ? message : null;
+    }
+
+    /**
+     * Scheduled message counts across all tenants
+     */
+    async getScheduleStats(): Promise<{ scheduled: number; due: number; processing: number }> {
+        return this.getMessageScheduler().getStats();
+    }
+
+    /**
+     * A tenant's messages still to be sent, soonest first
+     */
+    async listScheduledMessages(tenantId: string = DEFAULT_TENANT, limit = 50, offset = 0): Promise<ScheduledMessage[]> {
+        return this.getMessageScheduler().list(tenantId, limit, offset);
+    }
+
+    /**
+     * Move a pending scheduled message to a new send time.
+     * Returns null if it was already sent or cancelled.
+     */
+    async rescheduleMessage(id: string, sendAt: Date, tenantId: string = DEFAULT_TENANT): Promise<ScheduledMessage | null> {
+        if (!(await this.getScheduledMessage(id, tenantId))) return null;
+        return this.getMessageScheduler().reschedule(id, sendAt);
+    }
+
+    /**
+     * Cancel a pending scheduled message. Returns null if it was already sent or cancelled.
+     */
+    async cancelScheduledMessage(id: string, tenantId: string = DEFAULT_TENANT): Promise<ScheduledMessage | null> {
+        if (!(await this.getScheduledMessage(id, tenantId))) return null;
+
+        const message = await this.getMessageScheduler().cancel(id);
+        if (message) {
+            await this.getMessageStore().updateStatus(id, 'cancelled', { detail: 'Scheduled message cancelled' });
+        }
+
+        return message;
+    }
+
+    private async schedule(payload: QueueJobPayload, sendAt: Date): Promise<SendResult> {
+        const message = await this.getMessageScheduler().schedule(payload, sendAt);
+        await this.getMessageStore().create({
+            id: message.id,
+            tenantId: payload.tenantId,
+            channel: payload.channel,
+            to: payload.channel === 'sms' ? payload.to : recipientList(payload.to),
+            status: 'queued',
+            detail: `Scheduled for ${message.sendAt}`,
+            ...this.describeContent(payload),
+        });
+
+        return {
+            success: true,
+            message: `${payload.channel === 'sms' ? 'SMS' : 'Email'} scheduled for ${message.sendAt}`,
+            messageId: message.id,
+            data: { messageId: message.id, status: message.status, sendAt: message.sendAt },
+        };
+    }
+
+    /**
+     * Hand a due message to the send queue when async delivery is enabled
+     * (so it gets retries), otherwise send it now
+     */
+    private async dispatchScheduledMessage(message: ScheduledMessage): Promise<void> {
+        const { payload } = message;
+
+        if (this.messageQueue) {
+            await this.messageQueue.enqueue(payload, message.id);
+            return;
+        }
+
+        const result = payload.channel === 'sms'
+            ? await this.smsService.sendSMS(payload.to, payload.message)
+            : await this.emailService.sendEmail(payload.to, payload.subject, payload.htmlBody, payload.textBody, payload.options);
+
+        await this.getMessageStore().updateStatus(message.id, result.success ? 'sent' : 'failed', {
+            provider: result.provider || this.getProviderName(payload.channel),
+            providerMessageId: result.providerMessageId,
+            detail: result.success ? undefined : result.message,
+        });
+    }
+
+    private async recordScheduledFailure(message: ScheduledMessage): Promise<void> {
+        await this.getMessageStore().updateStatus(message.id, 'failed', { detail: message.lastError });
+    }
+
+    private getMessageScheduler(): MessageScheduler {
+        if (!this.messageScheduler) throw new Error('Redis not connected');
+        return this.messageScheduler;
+    }
+
+    // ===========================
+    // MESSAGE STATUS TRACKING
+    // ===========================
+
+    /**
+     * Get the current status and history of a message within a tenant
+     */
+    async getMessage(id: string, tenantId: string = DEFAULT_TENANT): Promise<MessageRecord | null> {
+        const record = await this.getMessageStore().get(id);
+        return record && record.tenantId === tenantId ? record : null;
+    }
+
+    /**
+     * Apply a provider delivery report to the matching message.
+     * Reports match on the provider message ID; a `messageId` from the callback URL must agree with it.
+     */
+    async applyDeliveryReport(report: DeliveryReport, messageId?: string): Promise<MessageRecord | null> {
+        const store = this.getMessageStore();
+
+        // A messageId from the callback URL only confirms the match, so a caller
+        // cannot point a report at a message the provider never sent
+        if (!report.providerMessageId) return null;
+
+        const record = await store.findByProviderMessageId(report.provider, report.providerMessageId);
+        if (!record || (messageId && record.id !== messageId)) return null;
+
+        return store.updateStatus(record.id, report.status, {
+            provider: report.provider,
+            providerMessageId: report.providerMessageId,
+            detail: report.errorCode ? `${report.rawStatus} (${report.errorCode})` : report.rawStatus,
+            timestamp: report.timestamp,
+        });
+    }
+
+    /**
+     * Search the message log
+     */
+    async searchMessages(filters: MessageSearchFilters): Promise<MessageSearchResult> {
+        return this.getMessageStore().search(filters);
+    }
+
+    /**
+     * Record the outcome of a synchronous send and attach the message ID
+     */
+    private async recordMessage(
+        tenantId: string,
+        channel: MessageChannel,
+        to: string | string[],
+        content: { subject?: string; body: string; cc?: string[]; bcc?: string[] },
+        result: SendResult
+    ): Promise<SendResult> {
+        const provider = result.provider || this.getProviderName(channel);
+        const record = await this.getMessageStore().create({
+            tenantId,
+            channel,
+            to,
+            cc: content.cc,
+            bcc: content.bcc,
+            status: result.success ? 'sent' : 'failed',
+            provider: result.success ? provider : undefined,
+            providerMessageId: result.providerMessageId,
+            subject: content.subject,
+            body: content.body,
+            detail: result.success ? undefined : result.message,
+        });
+
+        // Single-provider channels do not name themselves in their results
+        return { ...result, provider: record.provider ?? result.provider, messageId: record.id };
+    }
+
+    private describeContent(payload: QueueJobPayload): { subject?: string; body: string; cc?: string[]; bcc?: string[] } {
+        return payload.channel === 'sms'
+            ? { body: payload.message }
+            : {
+                subject: payload.subject,
+                body: payload.textBody || payload.htmlBody,
+                cc: payload.options?.cc,
+                bcc: payload.options?.bcc,
+            };
+    }
+
+    private getProviderName(channel: MessageChannel): string {
+        switch (channel) {
+            case 'sms':
+                return this.smsService.getActiveProviderName();
+            case 'voice':
+                return this.voiceService.getActiveProviderName();
+            case 'whatsapp':
+                return this.whatsappService.getActiveProviderName();
+            default:
+                return this.emailService.getActiveProviderName();
+        }
+    }
+
+    private getMessageStore(): MessageStore {
+        if (!this.messageStore) throw new Error('Redis not connected');
+        return this.messageStore;
+    }
+
+    /**
+     * Stored message templates, see templateService.ts
+     */
+    getTemplateService(): TemplateService {
+        if (!this.templateService) throw new Error('Redis not connected');
+        return this.templateService;
+    }
+
+    /**
+     * Render a stored or built-in template for a tenant and locale
+     */
+    async renderMessageTemplate(
+        templateId: string,
+        locale: string | undefined,
+        variables: TemplateVariables = {},
+        tenantId: string = DEFAULT_TENANT
+    ): Promise<RenderedTemplate | null> {
+        return this.getTemplateService().render(tenantId, templateId, locale, variables);
+    }
+
+    /**
+     * SMS routing rules, see smsRouting.ts
+     */
+    getSMSRoutingTable(): SMSRoutingTable {
+        if (!this.smsRoutingTable) throw new Error('Redis not connected');
+        return this.smsRoutingTable;
+    }
 
-        // Store hashed OTP
-        await this.redisClient.setEx(otpKey, this.OTP_EXPIRY, hashedOTP);
+    /**
+     * Encoding, segment count and estimated cost of an SMS before sending it
+     */
+    async estimateSMS(message: string, to?: string): Promise<SMSCostEstimate> {
+        return this.smsService.estimate(message, to);
+    }
 
-        // Reset attempts counter
-        await this.redisClient.setEx(attemptsKey, this.OTP_EXPIRY, '0');
+    /**
+     * Circuit breaker state of each SMS provider and the email provider
+     */
+    getCircuitStatus(): { sms: CircuitStatus[]; email: CircuitStatus | null } {
+        return {
+            sms: this.smsService.getCircuitStatus(),
+            email: this.emailService.getCircuitStatus(),
+        };
+    }
 
-        // Increment rate limit
-        await this.incrementRateLimit(identifier);
+    /**
+     * The account balance of each SMS provider: the last check by any instance,
+     * or fetched now (alerting on any below their low-balance threshold) when
+     * `refresh` is set or a provider has not been checked yet
+     */
+    async getProviderBalances(refresh = false): Promise<BalanceStatus[]> {
+        if (!this.balanceMonitor) throw new Error('Redis not connected');
+        return refresh ? this.balanceMonitor.check() : this.balanceMonitor.lastKnown();
     }
 
     /**
-     * Verify OTP
+     * Whether each SMS provider is currently healthy enough to be routed to first
      */
-    async verifyOTP(identifier: string, otp: string): Promise<{ valid: boolean; message: string }> {
-        if (!this.redisClient) throw new Error('Redis not connected');
+    getSMSProviderHealth(): Record<string, boolean> {
+        return this.smsService.getProviderHealth();
+    }
 
-        const otpKey = `otp:${identifier}`;
-        const attemptsKey = `otp:attempts:${identifier}`;
+    /**
+     * API keys and their tenants, see auth.ts
+     */
+    getApiKeyStore(): ApiKeyStore {
+        if (!this.apiKeyStore) throw new Error('Redis not connected');
+        return this.apiKeyStore;
+    }
 
-        // Check if OTP exists
-        const storedHash = await this.redisClient.get(otpKey);
-        if (!storedHash) {
-            return {
-                valid: false,
-                message: 'OTP expired or not found',
-            };
-        }
+    /**
+     * Stored responses for Idempotency-Key retries, see idempotency.ts
+     */
+    getIdempotencyStore(): IdempotencyStore {
+        if (!this.idempotencyStore) throw new Error('Redis not connected');
+        return this.idempotencyStore;
+    }
 
-        // Check attempts
-        const attemptsStr = await this.redisClient.get(attemptsKey);
-        const attempts = attemptsStr ? parseInt(attemptsStr) : 0;
+    /**
+     * Send SMS
+     */
+    async sendSMS(to: string, message: string, tenantId: string = DEFAULT_TENANT): Promise<SendResult> {
+        const result = await this.smsService.sendSMS(to, message);
+        return this.recordMessage(tenantId, 'sms', to, { body: message }, result);
+    }
 
-        if (attempts >= this.MAX_ATTEMPTS) {
-            // Delete OTP after max attempts
-            await this.redisClient.del(otpKey);
-            await this.redisClient.del(attemptsKey);
+    /**
+     * Send one SMS text to many recipients. `{{variables}}` in the message
+     * are filled in per recipient. With `transliterate`, each rendered message
+     * is converted to GSM-7 look-alikes. Returns a per-recipient report.
+     */
+    async sendBulkSMS(
+        recipients: BulkRecipient[],
+        message: string,
+        options: { concurrency?: number; tenantId?: string; transliterate?: boolean } = {}
+    ): Promise<BulkSendReport> {
+        const tenantId = options.tenantId || DEFAULT_TENANT;
+        const messages = recipients.map((recipient) => {
+            const rendered = renderTemplate(message, recipient.variables);
+            return { to: recipient.to, message: options.transliterate ? transliterateToGSM(rendered) : rendered };
+        });
 
-            return {
-                valid: false,
-                message: 'Maximum verification attempts exceeded',
-            };
+        const sendResults = await this.smsService.sendBulkSMS(messages, options.concurrency || 10);
+
+        const results: BulkRecipientResult[] = [];
+        for (let index = 0; index < messages.length; index++) {
+            const { to, message: body } = messages[index];
+            const result = await this.recordMessage(tenantId, 'sms', to, { body }, sendResults[index]);
+
+            results.push({
+                to,
+                success: result.success,
+                message: result.message,
+                provider: result.provider,
+                messageId: result.messageId,
+                providerMessageId: result.providerMessageId,
+                route: result.route,
+                segments: result.segments,
+            });
         }
 
-        // Verify OTP
-        const hashedInput = this.hashOTP(otp);
-
-        if (hashedInput === storedHash) {
-            // Valid OTP - clean up
-            await this.redisClient.del(otpKey);
-            await this.redisClient.del(attemptsKey);
-
-            return {
-                valid: true,
-                message: 'OTP verified successfully',
-            };
-        } else {
-            // Invalid OTP - increment attempts
-            await this.redisClient.incr(attemptsKey);
+        const sent = results.filter((result) => result.success).length;
 
-            const remainingAttempts = this.MAX_ATTEMPTS - (attempts + 1);
-            return {
-                valid: false,
-                message: `Invalid OTP. ${remainingAttempts} attempt(s) remaining`,
-            };
-        }
+        return {
+            total: results.length,
+            sent,
+            failed: results.length - sent,
+            results,
+        };
     }
-}
-
-// ===========================
-// SMS SERVICE MANAGER
-// ===========================
 
-export class SMSService {
-    private activeProvider: ISMSProvider | null = null;
+    /**
+     * Send Email
+     */
+    async sendEmail(
+        to: string | string[],
+        subject: string,
+        htmlBody: string,
+        textBody: string,
+        tenantId: string = DEFAULT_TENANT,
+        options?: EmailOptions
+    ): Promise<SendResult> {
+        const result = await this.emailService.sendEmail(to, subject, htmlBody, textBody, options);
+        return this.recordMessage(tenantId, 'email', recipientList(to), {
+            subject,
+            body: textBody || htmlBody,
+            cc: options?.cc,
+            bcc: options?.bcc,
+        }, result);
+    }
 
-    setProvider(provider: ISMSProvider): void {
-        this.activeProvider = provider;
-        console.log(`📱 SMS Provider set to: ${provider.getProviderName()}`);
+    /**
+     * Send a free-form WhatsApp message. Only delivered within 24 hours of the
+     * recipient's last message to you; use a template to start a conversation.
+     */
+    async sendWhatsApp(to: string, text: string, tenantId: string = DEFAULT_TENANT): Promise<SendResult> {
+        const result = await this.whatsappService.sendMessage(to, text);
+        return this.recordMessage(tenantId, 'whatsapp', to, { body: text }, result);
     }
 
-    getActiveProviderName(): string {
-        return this.activeProvider?.getProviderName() || 'None';
+    /**
+     * Send an approved WhatsApp template message
+     */
+    async sendWhatsAppTemplate(
+        to: string,
+        template: WhatsAppTemplateMessage,
+        tenantId: string = DEFAULT_TENANT
+    ): Promise<SendResult> {
+        const result = await this.whatsappService.sendTemplate(to, template);
+        return this.recordMessage(tenantId, 'whatsapp', to, {
+            subject: `Template: ${template.name}`,
+            body: (template.parameters || []).join(' | '),
+        }, result);
     }
 
-    async sendSMS(to: string, message: string): Promise<SendResult> {
-        if (!this.activeProvider) {
+    /**
+     * Send OTP via SMS, Email, a voice call or WhatsApp, starting a verification
+     * session for the purpose. With `fallback` destinations, the code moves to
+     * the next one when delivery fails or it is not verified within the
+     * policy's fallbackAfterSeconds. All sends in the session count against the
+     * primary identifier's rate limit.
+     */
+    async sendOTP(
+        channel: OTPChannel,
+        identifier: string,
+        purpose: VerificationPurpose,
+        options: OTPSendOptions = {}
+    ): Promise<OTPSendResult> {
+        const tenantId = options.tenantId || DEFAULT_TENANT;
+
+        const policy = this.otpService.getPolicy(options.policy);
+        if (!policy) {
             return {
                 success: false,
-                message: 'No SMS provider configured',
+                message: `Unknown OTP policy: ${options.policy}`,
+                error: 'invalid_request',
             };
         }
 
-        return this.activeProvider.sendSMS(to, message);
-    }
+        const message: OTPMessageOptions = {
+            brandName: options.brandName,
+            templateId: options.templateId,
+            locale: options.locale,
+            variables: options.variables,
+        };
+        // Phone identifiers are stored in E.164 so every format maps to the same session and rate limit
+        const destinations: OTPDestination[] = [];
+        for (const destination of [{ channel, identifier }, ...(options.fallback || [])]) {
+            if (destination.channel === 'email') {
+                destinations.push(destination);
+                continue;
+            }
 
-    async sendOTP(to: string, otp: string): Promise<SendResult> {
-        if (!this.activeProvider) {
+            const parsed = parsePhoneNumber(destination.identifier, this.defaultCountryCode);
+            if (!parsed.phone) {
+                return { success: false, message: parsed.message!, error: 'invalid_request' };
+            }
+            destinations.push({ channel: destination.channel, identifier: parsed.phone.e164 });
+        }
+        const [primary, ...fallback] = destinations;
+
+        // Generate OTP
+        const otp = this.otpService.generateOTP(policy);
+
+        // Render the messages before counting the send, so a bad template does not use up the rate limit
+        const contents: OTPMessageContent[] = [];
+        for (const destination of destinations) {
+            const rendered = await this.renderOTPMessage(destination.channel, otp, policy, message, tenantId);
+            if (!rendered.content) {
+                return { success: false, message: rendered.message!, error: rendered.error };
+            }
+            contents.push(rendered.content);
+        }
+
+        // Check and count the cooldown and rate limit
+        const limit = await this.otpService.reserveSend(primary.identifier, purpose, tenantId, policy);
+        if (!limit.allowed) {
             return {
                 success: false,
-                message: 'No SMS provider configured',
+                message: limit.message!,
+                error: 'rate_limited',
+                retryAfter: limit.retryAfter,
             };
         }
 
-        return this.activeProvider.sendOTP(to, otp);
+        // Store OTP
+        const session = await this.otpService.createSession(
+            { tenantId, purpose, ...primary, fallback, context: options.context, message },
+            otp,
+            policy
+        );
+
+        return this.deliverOTP(session, otp, policy, contents, limit, 'OTP sent successfully');
     }
 
     /**
-     * Factory method to create provider from configuration
+     * Send a new code for a pending verification session to its current
+     * destination. The previous code stops working, attempts start over and
+     * the expiry moves forward. Resends share the identifier's cooldown and
+     * hourly quota with fresh sends.
      */
-    static createProvider(
-        providerName: string,
-        credentials: any
-    ): ISMSProvider | null {
-        switch (providerName.toLowerCase()) {
-            case 'hubtel':
-                return new HubtelProvider(credentials as HubtelConfig);
-            case 'twilio':
-                return new TwilioProvider(credentials as TwilioConfig);
-            case 'mnotify':
-                return new MnotifyProvider(credentials as MnotifyConfig);
-            case 'arkesel':
-                return new ArkeselProvider(credentials as ArkeselConfig);
-            default:
-                return null;
+    async resendOTP(verificationId: string, tenantId: string = DEFAULT_TENANT): Promise<OTPSendResult> {
+        const session = await this.otpService.getSession(tenantId, verificationId);
+        if (!session) {
+            return { success: false, message: 'Verification not found', error: 'not_found' };
         }
-    }
-}
-
-// ===========================
-// EMAIL SERVICE MANAGER
-// ===========================
-
-export class EmailService {
-    private activeProvider: IEmailProvider | null = null;
-
-    setProvider(provider: IEmailProvider): void {
-        this.activeProvider = provider;
-        console.log(`📧 Email Provider set to: ${provider.getProviderName()}`);
-    }
 
-    getActiveProviderName(): string {
-        return this.activeProvider?.getProviderName() || 'None';
-    }
+        if (session.status !== 'pending') {
+            return {
+                success: false,
+                message: `Cannot resend OTP: verification is ${session.status}`,
+                error: 'conflict',
+                verificationId: session.id,
+            };
+        }
 
-    async sendEmail(
-        to: string,
-        subject: string,
-        htmlBody: string,
-        textBody: string
-    ): Promise<SendResult> {
-        if (!this.activeProvider) {
+        const policy = this.otpService.getPolicy(session.policy);
+        if (!policy) {
             return {
                 success: false,
-                message: 'No email provider configured',
+                message: `Unknown OTP policy: ${session.policy}`,
+                error: 'conflict',
+                verificationId: session.id,
             };
         }
 
-        return this.activeProvider.sendEmail(to, subject, htmlBody, textBody);
-    }
+        const otp = this.otpService.generateOTP(policy);
+        const message = await this.otpService.getMessageOptions(tenantId, session.id);
 
-    async sendOTP(to: string, otp: string, brandName?: string): Promise<SendResult> {
-        if (!this.activeProvider) {
+        // Report why the current destination cannot be rendered, e.g. a template deleted since the send
+        const active = session.destinations[session.activeDestination];
+        const rendered = await this.renderOTPMessage(active.channel, otp, policy, message, tenantId);
+        if (!rendered.content) {
             return {
                 success: false,
-                message: 'No email provider configured',
+                message: rendered.message!,
+                error: rendered.error,
+                verificationId: session.id,
             };
         }
 
-        return this.activeProvider.sendOTP(to, otp, brandName);
-    }
-}
+        const contents = await this.renderOTPMessages(session, otp, policy, message, session.activeDestination + 1);
+        contents[session.activeDestination] = rendered.content;
 
-// ===========================
-// UNIFIED MESSAGING SERVICE
-// ===========================
+        const limit = await this.otpService.reserveSend(session.identifier, session.purpose, tenantId, policy);
+        if (!limit.allowed) {
+            return {
+                success: false,
+                message: limit.message!,
+                error: 'rate_limited',
+                retryAfter: limit.retryAfter,
+                verificationId: session.id,
+            };
+        }
 
-export class MessagingService {
-    private smsService: SMSService;
-    private emailService: EmailService;
-    private otpService: OTPService;
+        // The session may have been verified or expired since it was read
+        const reissued = await this.otpService.reissueCode(session, otp, policy);
+        if (!reissued) {
+            await this.otpService.releaseSend(session.identifier, session.purpose, tenantId, limit);
+            return {
+                success: false,
+                message: 'Cannot resend OTP: verification is no longer pending',
+                error: 'conflict',
+                verificationId: session.id,
+            };
+        }
 
-    constructor() {
-        this.smsService = new SMSService();
-        this.emailService = new EmailService();
-        this.otpService = new OTPService();
+        return this.deliverOTP(reissued, otp, policy, contents, limit, 'OTP resent successfully');
     }
 
     /**
-     * Initialize the messaging service
+     * Render the OTP message for a channel from the built-in or a stored template
      */
-    async initialize(config: {
-        redis: { host: string; port: number; db: number; password?: string; username?: string };
-        sms?: { provider: string; credentials: any };
-        email?: { provider: string; credentials: any };
-    }): Promise<void> {
-        // Connect to Redis
-        await this.otpService.connect(config.redis);
+    private async renderOTPMessage(
+        channel: OTPChannel,
+        otp: string,
+        policy: OTPPolicy,
+        options: OTPMessageOptions,
+        tenantId: string
+    ): Promise<{ content?: OTPMessageContent; message?: string; error?: OTPSendError }> {
+        const brandName = options.brandName || 'BlazeSend';
+
+        // Calls are spoken by the voice provider (see buildOTPVoiceTwiML) and
+        // WhatsApp codes go out in the provider's approved OTP template
+        if (channel === 'voice' || channel === 'whatsapp') {
+            return options.templateId
+                ? { message: `Templates are not supported for ${channel} OTPs`, error: 'invalid_request' }
+                : { content: { brandName } };
+        }
 
-        // Initialize SMS provider if configured
-        if (config.sms) {
-            const smsProvider = SMSService.createProvider(
-                config.sms.provider,
-                config.sms.credentials
-            );
-            if (smsProvider) {
-                this.smsService.setProvider(smsProvider);
-            }
+        const content = await this.renderMessageTemplate(
+            options.templateId || 'otp',
+            options.locale,
+            { ...options.variables, otp, brandName, ttlMinutes: getOTPTTLMinutes(policy) },
+            tenantId
+        );
+
+        if (!content) {
+            return { message: `Template not found: ${options.templateId}`, error: 'not_found' };
         }
 
-        // Initialize Email provider if configured
-        if (config.email?.provider === 'smtp') {
-            const emailProvider = new SMTPProvider(config.email.credentials);
-            this.emailService.setProvider(emailProvider);
+        if (channel === 'sms' ? !content.sms : !content.emailSubject || !(content.emailHtml || content.emailText)) {
+            return {
+                message: `Template ${content.templateId} has no ${channel === 'sms' ? 'SMS' : 'email'} content`,
+                error: 'invalid_request',
+            };
         }
-    }
 
-    /**
-     * Cleanup resources
-     */
-    async cleanup(): Promise<void> {
-        await this.otpService.disconnect();
+        return { content: { template: content, brandName } };
     }
 
     /**
-     * Send SMS
+     * Render the OTP message for a session's destinations from `from` on.
+     * Destinations whose message cannot be rendered are left empty and skipped on delivery.
      */
-    async sendSMS(to: string, message: string): Promise<SendResult> {
-        return this.smsService.sendSMS(to, message);
-    }
+    private async renderOTPMessages(
+        session: VerificationSession,
+        otp: string,
+        policy: OTPPolicy,
+        message: OTPMessageOptions,
+        from: number
+    ): Promise<(OTPMessageContent | undefined)[]> {
+        const contents: (OTPMessageContent | undefined)[] = [];
+
+        for (let index = from; index < session.destinations.length; index++) {
+            const rendered = await this.renderOTPMessage(session.destinations[index].channel, otp, policy, message, session.tenantId);
+            contents[index] = rendered.content;
+        }
 
-    /**
-     * Send Email
-     */
-    async sendEmail(
-        to: string,
-        subject: string,
-        htmlBody: string,
-        textBody: string
-    ): Promise<SendResult> {
-        return this.emailService.sendEmail(to, subject, htmlBody, textBody);
+        return contents;
     }
 
     /**
-     * Send OTP via SMS or Email
+     * Deliver a session's code, starting at its active destination and moving
+     * down the fallback list while delivery fails. Once delivered, the next
+     * fallback is scheduled in case the code is not verified in time. If no
+     * destination gets the code, the send's reservation is given back, so a
+     * provider outage does not use up the cooldown and hourly quota.
      */
-    async sendOTP(
-        channel: 'sms' | 'email',
-        identifier: string,
-        brandName?: string
-    ): Promise<SendResult> {
-        // Check rate limit
-        const rateLimitCheck = await this.otpService.checkRateLimit(identifier);
-        if (!rateLimitCheck.allowed) {
+    private async deliverOTP(
+        session: VerificationSession,
+        otp: string,
+        policy: OTPPolicy,
+        contents: (OTPMessageContent | undefined)[],
+        limit: SendLimitResult,
+        successMessage: string
+    ): Promise<OTPSendResult> {
+        const failedDestinations: OTPDeliveryFailure[] = [];
+
+        for (let index = session.activeDestination; index < session.destinations.length; index++) {
+            const destination = session.destinations[index];
+            const content = contents[index];
+
+            if (!content) {
+                failedDestinations.push({ ...destination, message: 'OTP message could not be rendered' });
+                continue;
+            }
+
+            const result = await this.deliverOTPTo(session, destination, otp, content);
+            if (!result.success) {
+                failedDestinations.push({ ...destination, message: result.message });
+                continue;
+            }
+
+            if (index !== session.activeDestination) {
+                await this.otpService.setActiveDestination(session, index);
+            }
+
+            if (index + 1 < session.destinations.length && policy.fallbackAfterSeconds > 0) {
+                await this.otpService.scheduleFallback(session, Date.now() + policy.fallbackAfterSeconds * 1000);
+            }
+
             return {
-                success: false,
-                message: rateLimitCheck.message!,
+                success: true,
+                message: `${successMessage} via ${destination.channel}`,
+                provider: result.provider,
+                failedProviders: result.failedProviders,
+                messageId: result.messageId,
+                segments: result.segments,
+                verificationId: session.id,
+                expiresAt: session.expiresAt,
+                retryAfter: limit.retryAfter,
+                destination,
+                failedDestinations,
             };
         }
 
-        // Generate OTP
-        const otp = this.otpService.generateOTP();
+        await this.otpService.releaseSend(session.identifier, session.purpose, session.tenantId, limit);
 
-        // Store OTP
-        await this.otpService.storeOTP(identifier, otp);
+        const last = failedDestinations[failedDestinations.length - 1];
+        return {
+            success: false,
+            message: last ? last.message : 'No destination left to deliver the OTP to',
+            error: 'delivery_failed',
+            verificationId: session.id,
+            failedDestinations,
+        };
+    }
+
+    /**
+     * Send a code to one destination and log the message
+     */
+    private async deliverOTPTo(
+        session: VerificationSession,
+        destination: OTPDestination,
+        otp: string,
+        content: OTPMessageContent
+    ): Promise<SendResult> {
+        const { channel, identifier } = destination;
 
         // 🔥 DEVELOPMENT MODE: Log OTP to console
         if (process.env.NODE_ENV === 'development') {
@@ -794,46 +3496,128 @@ export class MessagingService {
             console.log('='.repeat(50));
             console.log(`📱 To: ${identifier}`);
             console.log(`🔢 OTP: ${otp}`);
-            console.log(`⏰ Expires in: 10 minutes`);
+            console.log(`⏰ Expires at: ${session.expiresAt} (policy: ${session.policy})`);
             console.log(`📊 Channel: ${channel}`);
+            console.log(`🎯 Purpose: ${session.purpose} (verification ${session.id}, resends: ${session.resends})`);
             console.log('='.repeat(50) + '\n');
         }
 
         // Send OTP via chosen channel
+        const template = content.template!;
         let result: SendResult;
         if (channel === 'sms') {
-            result = await this.smsService.sendOTP(identifier, otp);
+            result = await this.smsService.sendSMS(identifier, template.sms!);
+        } else if (channel === 'voice') {
+            result = await this.voiceService.sendOTP(identifier, otp, content.brandName);
+        } else if (channel === 'whatsapp') {
+            result = await this.whatsappService.sendOTP(identifier, otp);
         } else {
-            result = await this.emailService.sendOTP(identifier, otp, brandName);
+            result = await this.emailService.sendEmail(
+                identifier,
+                template.emailSubject!,
+                template.emailHtml || template.emailText!,
+                template.emailText || ''
+            );
         }
 
-        if (result.success) {
-            return {
-                success: true,
-                message: `OTP sent successfully via ${channel}`,
-            };
-        } else {
-            return result;
+        return this.recordMessage(session.tenantId, channel, identifier, { body: 'Verification code (OTP)' }, result);
+    }
+
+    /**
+     * Move an unverified session to its next destination with a new code
+     */
+    private async fallBackOTP(tenantId: string, verificationId: string): Promise<void> {
+        const session = await this.otpService.getSession(tenantId, verificationId);
+        if (!session || session.status !== 'pending') return;
+
+        const next = session.activeDestination + 1;
+        const policy = this.otpService.getPolicy(session.policy);
+        if (!policy || next >= session.destinations.length) return;
+
+        const otp = this.otpService.generateOTP(policy);
+        const message = await this.otpService.getMessageOptions(tenantId, session.id);
+        const contents = await this.renderOTPMessages(session, otp, policy, message, next);
+
+        const limit = await this.otpService.reserveSend(session.identifier, session.purpose, tenantId, policy);
+        if (!limit.allowed) {
+            // Try again once the cooldown has passed, if the code is still valid then
+            const retryAt = Date.now() + limit.retryAfter * 1000;
+            if (retryAt < Date.parse(session.expiresAt)) {
+                await this.otpService.scheduleFallback(session, retryAt);
+            }
+            return;
+        }
+
+        // Verified or expired since it was read: nothing is sent, so the send is not counted
+        const reissued = await this.otpService.reissueCode(session, otp, policy, next);
+        if (!reissued) {
+            await this.otpService.releaseSend(session.identifier, session.purpose, tenantId, limit);
+            return;
+        }
+
+        const result = await this.deliverOTP(reissued, otp, policy, contents, limit, 'OTP fallback sent');
+        console.log(`🔁 OTP fallback for verification ${session.id}: ${result.message}`);
+    }
+
+    private async processOTPFallbacks(): Promise<void> {
+        if (this.fallbackTicking) return;
+        this.fallbackTicking = true;
+
+        try {
+            for (const { tenantId, id } of await this.otpService.claimDueFallbacks()) {
+                await this.fallBackOTP(tenantId, id)
+                    .catch((error) => console.error(`OTP fallback error (${id}):`, error));
+            }
+        } finally {
+            this.fallbackTicking = false;
         }
     }
 
     /**
-     * Verify OTP
+     * Verify OTP by verification ID. Pass the expected purpose so a code
+     * issued for another flow is rejected.
      */
-    async verifyOTP(identifier: string, otp: string): Promise<SendResult> {
-        const result = await this.otpService.verifyOTP(identifier, otp);
+    async verifyOTP(
+        verificationId: string,
+        otp: string,
+        tenantId: string = DEFAULT_TENANT,
+        expected: { purpose?: VerificationPurpose; policy?: string } = {}
+    ): Promise<OTPVerifyResult> {
+        const result = await this.otpService.verifyOTP(tenantId, verificationId, otp, expected);
 
         return {
             success: result.valid,
             message: result.message,
+            verification: result.session,
         };
     }
 
+    /**
+     * Verification session status: pending, verified, expired or locked
+     */
+    async getVerification(verificationId: string, tenantId: string = DEFAULT_TENANT): Promise<VerificationSession | null> {
+        return this.otpService.getSession(tenantId, verificationId);
+    }
+
+    /**
+     * Look up a named OTP policy (defaults to "default")
+     */
+    getOTPPolicy(name?: string): OTPPolicy | null {
+        return this.otpService.getPolicy(name);
+    }
+
+    getOTPPolicies(): OTPPolicy[] {
+        return this.otpService.getPolicies();
+    }
+
     /**
      * Switch SMS provider at runtime
      */
     switchSMSProvider(config: { provider: string; credentials: any }): SendResult {
-        const provider = SMSService.createProvider(config.provider, config.credentials);
+        const provider = SMSService.createProvider(
+            config.provider,
+            this.withRequestTimeout(config.provider, config.credentials)
+        );
 
         if (!provider) {
             return {
@@ -842,7 +3626,7 @@ export class MessagingService {
             };
         }
 
-        this.smsService.setProvider(provider);
+        this.smsService.setProvider(this.withSMSCircuitBreaker(config.provider, provider));
 
         return {
             success: true,
@@ -851,13 +3635,47 @@ export class MessagingService {
         };
     }
 
+    /**
+     * Breaker settings for a provider, with its own timeout if one is configured
+     */
+    private circuitBreakerFor(providerName: string): CircuitBreakerConfig {
+        const timeoutMs = this.providerTimeouts[providerName.toLowerCase()];
+        return timeoutMs ? { ...this.circuitBreakerConfig, timeoutMs } : this.circuitBreakerConfig;
+    }
+
+    /**
+     * Provider credentials with the breaker timeout applied to each request,
+     * so a timed-out call is abandoned rather than left running
+     */
+    private withRequestTimeout(providerName: string, credentials: any): any {
+        return { timeoutMs: this.circuitBreakerFor(providerName).timeoutMs, ...credentials };
+    }
+
+    private withSMSCircuitBreaker(providerName: string, provider: ISMSProvider): ISMSProvider {
+        return new CircuitBreakerSMSProvider(provider, this.circuitBreakerFor(providerName));
+    }
+
+    private async probeProviders(): Promise<void> {
+        if (this.healthProbing) return;
+        this.healthProbing = true;
+
+        try {
+            await Promise.all([this.smsService.probeProviders(), this.emailService.probeProvider()]);
+        } finally {
+            this.healthProbing = false;
+        }
+    }
+
     /**
      * Get active providers
      */
-    getActiveProviders(): { sms: string; email: string } {
+    getActiveProviders(): { sms: string; smsChain: string[]; email: string; voice: string; whatsapp: string } {
         return {
             sms: this.smsService.getActiveProviderName(),
+            smsChain: this.smsService.getProviderChain(),
             email: this.emailService.getActiveProviderName(),
+            voice: this.voiceService.getActiveProviderName(),
+            whatsapp: this.whatsappService.getActiveProviderName(),
         };
     }
 }
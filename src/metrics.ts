@@ -0,0 +1,130 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { RedisClient, SendResult } from './messagingService';
+
+// ===========================
+// REGISTRY
+// ===========================
+
+/**
+ * Prometheus metrics, served as text on GET /metrics
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'blazesend_' });
+
+// ===========================
+// MESSAGE AND PROVIDER METRICS
+// ===========================
+
+export const messagesSent = new Counter({
+    name: 'blazesend_messages_sent_total',
+    help: 'Messages handed to a provider, by channel, provider and outcome (each failover attempt counts)',
+    labelNames: ['channel', 'provider', 'outcome'] as const,
+    registers: [metricsRegistry],
+});
+
+export const providerLatency = new Histogram({
+    name: 'blazesend_provider_request_duration_seconds',
+    help: 'Time taken by provider API calls',
+    labelNames: ['channel', 'provider', 'outcome'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [metricsRegistry],
+});
+
+/**
+ * Time a provider call and count its outcome. `messages` is the number of
+ * messages in the call (more than one for native bulk sends).
+ */
+export async function observeProviderCall(
+    channel: string,
+    provider: string,
+    call: () => Promise<SendResult>,
+    messages = 1
+): Promise<SendResult> {
+    const stopTimer = providerLatency.startTimer({ channel, provider });
+    let outcome = 'failure';
+
+    try {
+        const result = await call();
+        if (result.success) outcome = 'success';
+        return result;
+    } finally {
+        stopTimer({ outcome });
+        messagesSent.inc({ channel, provider, outcome }, messages);
+    }
+}
+
+export const providerBalance = new Gauge({
+    name: 'blazesend_provider_balance',
+    help: 'Last fetched provider account balance, in credits or a currency (see unit)',
+    labelNames: ['provider', 'unit'] as const,
+    registers: [metricsRegistry],
+});
+
+// ===========================
+// OTP METRICS
+// ===========================
+
+export const otpCodesIssued = new Counter({
+    name: 'blazesend_otp_codes_issued_total',
+    help: 'OTP codes issued, by channel and kind (new session or reissue for a resend or fallback)',
+    labelNames: ['channel', 'kind'] as const,
+    registers: [metricsRegistry],
+});
+
+export const otpVerifications = new Counter({
+    name: 'blazesend_otp_verifications_total',
+    help: 'OTP verification attempts by outcome; everything except "verified" is a failure',
+    labelNames: ['outcome'] as const,
+    registers: [metricsRegistry],
+});
+
+export const otpLockouts = new Counter({
+    name: 'blazesend_otp_lockouts_total',
+    help: 'Verification sessions locked after too many wrong codes',
+    registers: [metricsRegistry],
+});
+
+export const otpRateLimited = new Counter({
+    name: 'blazesend_otp_rate_limited_total',
+    help: 'OTP sends rejected by the resend cooldown or the hourly limit',
+    labelNames: ['reason'] as const,
+    registers: [metricsRegistry],
+});
+
+// ===========================
+// REDIS METRICS
+// ===========================
+
+export const redisErrors = new Counter({
+    name: 'blazesend_redis_errors_total',
+    help: 'Failed Redis commands by command, and client errors (command "client")',
+    labelNames: ['command'] as const,
+    registers: [metricsRegistry],
+});
+
+/**
+ * Wrap a Redis client so every command that rejects is counted in
+ * blazesend_redis_errors_total. Errors are still thrown to the caller.
+ */
+export function instrumentRedisClient(client: RedisClient): RedisClient {
+    client.on('error', () => redisErrors.inc({ command: 'client' }));
+
+    return new Proxy(client, {
+        get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+            if (typeof value !== 'function' || typeof property !== 'string') return value;
+
+            return (...args: any[]) => {
+                const result = value.apply(target, args);
+                if (result instanceof Promise) {
+                    return result.catch((error) => {
+                        redisErrors.inc({ command: property });
+                        throw error;
+                    });
+                }
+                return result;
+            };
+        },
+    });
+}
@@ -0,0 +1,113 @@
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export type OTPAlphabet = 'numeric' | 'alphanumeric';
+
+/**
+ * Rules for issuing and verifying codes for one use case (e.g. login, transaction)
+ */
+export interface OTPPolicy {
+    name: string;
+    length: number; // 4-10 characters
+    alphabet: OTPAlphabet;
+    ttlSeconds: number;
+    maxAttempts: number;
+    maxPerHour: number; // codes sent per identifier per hour
+    resendCooldownSeconds: number; // wait after the first send; doubles after each resend (0 disables)
+    fallbackAfterSeconds: number; // move to the next fallback channel if not verified by then (0 disables)
+}
+
+export const OTP_ALPHABETS: Record<OTPAlphabet, string> = {
+    numeric: '0123456789',
+    // No 0/O or 1/I, which are easily confused when read or typed
+    alphanumeric: 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789',
+};
+
+export const MIN_OTP_LENGTH = 4;
+export const MAX_OTP_LENGTH = 10;
+
+export const DEFAULT_OTP_POLICY: OTPPolicy = {
+    name: 'default',
+    length: 6,
+    alphabet: 'numeric',
+    ttlSeconds: 600, // 10 minutes
+    maxAttempts: 3,
+    maxPerHour: 3,
+    resendCooldownSeconds: 30,
+    fallbackAfterSeconds: 60,
+};
+
+// ===========================
+// CODE FORMAT
+// ===========================
+
+/**
+ * Canonical form of a user-entered code. Alphanumeric codes are case-insensitive.
+ */
+export function normalizeOTPCode(code: string, policy: OTPPolicy): string {
+    const trimmed = code.trim();
+    return policy.alphabet === 'alphanumeric' ? trimmed.toUpperCase() : trimmed;
+}
+
+/**
+ * Whether a (normalised) code has the length and alphabet of the policy
+ */
+export function isValidOTPCode(code: string, policy: OTPPolicy): boolean {
+    if (code.length !== policy.length) return false;
+
+    const alphabet = OTP_ALPHABETS[policy.alphabet];
+    return [...code].every((char) => alphabet.includes(char));
+}
+
+/**
+ * Human-readable code format, e.g. "6 digits"
+ */
+export function describeOTPFormat(policy: OTPPolicy): string {
+    return policy.alphabet === 'numeric'
+        ? `${policy.length} digits`
+        : `${policy.length} letters or digits`;
+}
+
+export function getOTPTTLMinutes(policy: OTPPolicy): number {
+    return Math.ceil(policy.ttlSeconds / 60);
+}
+
+// ===========================
+// POLICY VALIDATION
+// ===========================
+
+function isPositiveInteger(value: any): boolean {
+    return Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate a policy definition from configuration
+ */
+export function validateOTPPolicy(policy: any): { valid: boolean; message?: string } {
+    if (typeof policy.name !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(policy.name)) {
+        return { valid: false, message: 'Invalid name. Use 1-64 letters, digits, "-" or "_"' };
+    }
+
+    if (!Number.isInteger(policy.length) || policy.length < MIN_OTP_LENGTH || policy.length > MAX_OTP_LENGTH) {
+        return { valid: false, message: `length must be an integer from ${MIN_OTP_LENGTH} to ${MAX_OTP_LENGTH}` };
+    }
+
+    if (!Object.keys(OTP_ALPHABETS).includes(policy.alphabet)) {
+        return { valid: false, message: `alphabet must be one of: ${Object.keys(OTP_ALPHABETS).join(', ')}` };
+    }
+
+    for (const field of ['ttlSeconds', 'maxAttempts', 'maxPerHour']) {
+        if (!isPositiveInteger(policy[field])) {
+            return { valid: false, message: `${field} must be a positive integer` };
+        }
+    }
+
+    for (const field of ['resendCooldownSeconds', 'fallbackAfterSeconds']) {
+        if (!Number.isInteger(policy[field]) || policy[field] < 0) {
+            return { valid: false, message: `${field} must be a non-negative integer` };
+        }
+    }
+
+    return { valid: true };
+}
@@ -0,0 +1,164 @@
+// ===========================
+// OTP REDIS SCRIPTS
+// ===========================
+
+/**
+ * Lua scripts used by OTPService. Redis runs a script without interleaving
+ * other commands, so each check-and-update below is atomic even when many
+ * requests hit the same session or identifier at once.
+ */
+
+/**
+ * Verify a code against a verification session.
+ *
+ * KEYS[1]  otp:{tenant}:session:{id}
+ * ARGV[1]  Hash of the submitted code
+ * ARGV[2]  Maximum attempts for the session's policy
+ * ARGV[3]  Verification timestamp (ISO 8601)
+ *
+ * Returns { outcome, attempts } where outcome is one of:
+ * not_found, verified, already_verified, locked, invalid.
+ * Only one caller can ever get "verified": the hash is removed in the same step.
+ * Hashes are compared in constant time.
+ */
+export const VERIFY_OTP_SCRIPT = `
+local function constant_time_equals(a, b)
+    if #a ~= #b then return false end
+    local diff = 0
+    for i = 1, #a do
+        diff = bit.bor(diff, bit.bxor(string.byte(a, i), string.byte(b, i)))
+    end
+    return diff == 0
+end
+
+if redis.call('EXISTS', KEYS[1]) == 0 then
+    return { 'not_found', 0 }
+end
+
+local status = redis.call('HGET', KEYS[1], 'status')
+local attempts = tonumber(redis.call('HGET', KEYS[1], 'attempts') or '0')
+local maxAttempts = tonumber(ARGV[2])
+
+if status == 'verified' then
+    return { 'already_verified', attempts }
+end
+
+local stored = redis.call('HGET', KEYS[1], 'hash')
+if status == 'locked' or not stored or attempts >= maxAttempts then
+    redis.call('HSET', KEYS[1], 'status', 'locked')
+    redis.call('HDEL', KEYS[1], 'hash')
+    return { 'locked', attempts }
+end
+
+if constant_time_equals(stored, ARGV[1]) then
+    redis.call('HSET', KEYS[1], 'status', 'verified', 'verifiedAt', ARGV[3])
+    redis.call('HDEL', KEYS[1], 'hash')
+    return { 'verified', attempts }
+end
+
+attempts = redis.call('HINCRBY', KEYS[1], 'attempts', 1)
+if attempts >= maxAttempts then
+    redis.call('HSET', KEYS[1], 'status', 'locked')
+    redis.call('HDEL', KEYS[1], 'hash')
+end
+
+return { 'invalid', attempts }
+`;
+
+/**
+ * Count a send against an identifier's resend cooldown and hourly quota,
+ * unless either says to wait. The cooldown after the first send is the base
+ * cooldown and doubles with each further send (30s, 60s, 120s, ...).
+ *
+ * KEYS[1]  otp:{tenant}:ratelimit:{identifier}
+ * KEYS[2]  otp:{tenant}:cooldown:{purpose}:{identifier}
+ * ARGV[1]  Maximum sends per window
+ * ARGV[2]  Window length in seconds
+ * ARGV[3]  Current time (ms)
+ * ARGV[4]  Base cooldown in seconds (0 disables the cooldown)
+ *
+ * Returns { allowed (1 or 0), reason, seconds } where seconds is the wait
+ * before the next send: the new cooldown when allowed, otherwise the time left.
+ * reason is one of: ok, cooldown, rate_limit.
+ */
+export const SEND_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[3])
+local window = tonumber(ARGV[2])
+
+local nextAt = tonumber(redis.call('HGET', KEYS[2], 'nextAt') or '0')
+if nextAt > now then
+    return { 0, 'cooldown', math.ceil((nextAt - now) / 1000) }
+end
+
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+if count >= tonumber(ARGV[1]) then
+    return { 0, 'rate_limit', math.max(redis.call('TTL', KEYS[1]), 1) }
+end
+
+count = redis.call('INCR', KEYS[1])
+if count == 1 then
+    redis.call('EXPIRE', KEYS[1], window)
+end
+
+local sends = redis.call('HINCRBY', KEYS[2], 'sends', 1)
+local cooldown = math.min(tonumber(ARGV[4]) * 2 ^ (sends - 1), window)
+redis.call('HSET', KEYS[2], 'nextAt', now + cooldown * 1000)
+redis.call('EXPIRE', KEYS[2], window)
+
+return { 1, 'ok', cooldown }
+`;
+
+/**
+ * Replace the code of a pending session (resend or channel fallback).
+ * Attempts start over and the expiry moves forward; verified, locked or
+ * expired sessions are left alone.
+ *
+ * KEYS[1]  otp:{tenant}:session:{id}
+ * ARGV[1]  Hash of the new code
+ * ARGV[2]  ID of the HMAC key used for the hash
+ * ARGV[3]  New expiry (ISO 8601)
+ * ARGV[4]  Current time (ISO 8601)
+ * ARGV[5]  Key TTL in seconds
+ * ARGV[6]  Index of the destination the new code is sent to
+ *
+ * Returns 1 when the code was replaced, 0 otherwise.
+ */
+export const REISSUE_OTP_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'status') ~= 'pending' then
+    return 0
+end
+
+if redis.call('HGET', KEYS[1], 'expiresAt') <= ARGV[4] then
+    return 0
+end
+
+redis.call('HSET', KEYS[1], 'hash', ARGV[1], 'keyId', ARGV[2], 'attempts', 0, 'expiresAt', ARGV[3], 'activeDestination', ARGV[6])
+redis.call('HINCRBY', KEYS[1], 'resends', 1)
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+
+return 1
+`;
+
+/**
+ * Give back a send counted by SEND_LIMIT_SCRIPT that was never made. The
+ * cooldown is only lifted if no later send has replaced it.
+ *
+ * KEYS[1]  otp:{tenant}:ratelimit:{identifier}
+ * KEYS[2]  otp:{tenant}:cooldown:{purpose}:{identifier}
+ * ARGV[1]  nextAt set by the reservation (ms)
+ */
+export const RELEASE_SEND_SCRIPT = `
+if tonumber(redis.call('GET', KEYS[1]) or '0') > 0 then
+    redis.call('DECR', KEYS[1])
+end
+
+if redis.call('HGET', KEYS[2], 'nextAt') == ARGV[1] then
+    if tonumber(redis.call('HINCRBY', KEYS[2], 'sends', -1)) <= 0 then
+        redis.call('DEL', KEYS[2])
+    else
+        redis.call('HSET', KEYS[2], 'nextAt', 0)
+    end
+end
+
+return 1
+`;
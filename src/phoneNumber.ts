@@ -0,0 +1,151 @@
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export const GHANA_COUNTRY_CODE = '233';
+
+export type GhanaNetwork = 'MTN' | 'Telecel' | 'AirtelTigo' | 'Glo';
+
+export type PhoneLineType = 'mobile' | 'fixed_line' | 'unknown';
+
+export interface PhoneNumber {
+    e164: string; // e.g. +233241234567
+    lineType: PhoneLineType;
+    // Only known for Ghanaian numbers
+    countryCode?: string; // calling code without "+", e.g. 233
+    nationalNumber?: string; // without the trunk "0", e.g. 241234567
+    network?: GhanaNetwork; // mobile numbers only
+}
+
+export interface PhoneParseResult {
+    valid: boolean;
+    phone?: PhoneNumber;
+    message?: string;
+}
+
+/**
+ * Ghanaian mobile prefixes (first two digits of the national number, i.e. 024 → "24").
+ * Numbers keep their original prefix when ported between networks.
+ */
+const GHANA_MOBILE_PREFIXES: Record<string, GhanaNetwork> = {
+    '24': 'MTN',
+    '25': 'MTN',
+    '53': 'MTN',
+    '54': 'MTN',
+    '55': 'MTN',
+    '59': 'MTN',
+    '20': 'Telecel',
+    '50': 'Telecel',
+    '26': 'AirtelTigo',
+    '27': 'AirtelTigo',
+    '56': 'AirtelTigo',
+    '57': 'AirtelTigo',
+    '23': 'Glo',
+};
+
+// Geographic (fixed-line) numbers start with 03, e.g. 030 for Greater Accra
+const GHANA_FIXED_LINE_PREFIX = '3';
+
+const GHANA_NATIONAL_LENGTH = 9;
+
+// E.164 allows at most 15 digits including the country code
+const MIN_DIGITS = 8;
+const MAX_DIGITS = 15;
+
+// ===========================
+// PARSING
+// ===========================
+
+/**
+ * Parse a phone number into E.164. Accepts:
+ *   +233241234567 / 00233241234567   international
+ *   233241234567                     international without "+"
+ *   0241234567                       national, in the default country
+ *   241234567                        national without the trunk "0" (Ghana only)
+ * Spaces, dashes, dots and brackets are ignored.
+ */
+export function parsePhoneNumber(input: any, defaultCountryCode: string = GHANA_COUNTRY_CODE): PhoneParseResult {
+    if (typeof input !== 'string' || input.trim().length === 0) {
+        return { valid: false, message: 'Phone number is required' };
+    }
+
+    const compact = input.trim().replace(/[\s\-.()]/g, '');
+    if (!/^\+?\d+$/.test(compact)) {
+        return { valid: false, message: `Invalid phone number "${input}": only digits and a leading "+" are allowed` };
+    }
+
+    let digits: string;
+    if (compact.startsWith('+')) {
+        digits = compact.slice(1);
+    } else if (compact.startsWith('00')) {
+        digits = compact.slice(2);
+    } else if (compact.startsWith('0')) {
+        // National format: replace the trunk prefix with the default country code
+        digits = defaultCountryCode + compact.slice(1);
+    } else if (defaultCountryCode === GHANA_COUNTRY_CODE && compact.length === GHANA_NATIONAL_LENGTH) {
+        // A Ghanaian number missing its "0": 241234567 is 0241234567, not +241 (Gabon)
+        digits = defaultCountryCode + compact;
+    } else {
+        digits = compact;
+    }
+
+    if (digits.startsWith('0')) {
+        return { valid: false, message: `Invalid phone number "${input}": country code cannot start with 0` };
+    }
+
+    if (digits.length < MIN_DIGITS || digits.length > MAX_DIGITS) {
+        return {
+            valid: false,
+            message: `Invalid phone number "${input}": must have ${MIN_DIGITS}-${MAX_DIGITS} digits including the country code`,
+        };
+    }
+
+    if (digits.startsWith(GHANA_COUNTRY_CODE)) {
+        return parseGhanaNumber(input, digits.slice(GHANA_COUNTRY_CODE.length));
+    }
+
+    // Other countries are accepted as given; the country code length is not known here
+    return {
+        valid: true,
+        phone: { e164: `+${digits}`, lineType: 'unknown' },
+    };
+}
+
+function parseGhanaNumber(input: string, nationalNumber: string): PhoneParseResult {
+    if (nationalNumber.length !== GHANA_NATIONAL_LENGTH) {
+        return {
+            valid: false,
+            message: `Invalid Ghanaian number "${input}": expected 10 digits starting with 0 (e.g. 0241234567) or +233 followed by 9 digits`,
+        };
+    }
+
+    const prefix = nationalNumber.slice(0, 2);
+    const network = GHANA_MOBILE_PREFIXES[prefix];
+    const e164 = `+${GHANA_COUNTRY_CODE}${nationalNumber}`;
+
+    if (network) {
+        return {
+            valid: true,
+            phone: { e164, countryCode: GHANA_COUNTRY_CODE, nationalNumber, lineType: 'mobile', network },
+        };
+    }
+
+    if (prefix.startsWith(GHANA_FIXED_LINE_PREFIX)) {
+        return {
+            valid: true,
+            phone: { e164, countryCode: GHANA_COUNTRY_CODE, nationalNumber, lineType: 'fixed_line' },
+        };
+    }
+
+    return {
+        valid: false,
+        message: `Invalid Ghanaian number "${input}": 0${prefix} is not an MTN, Telecel, AirtelTigo, Glo or fixed-line prefix`,
+    };
+}
+
+/**
+ * E.164 form of a phone number, or null if it cannot be parsed
+ */
+export function toE164(input: string, defaultCountryCode: string = GHANA_COUNTRY_CODE): string | null {
+    return parsePhoneNumber(input, defaultCountryCode).phone?.e164 ?? null;
+}
@@ -3,14 +3,51 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
+import multer from 'multer';
 import {
     MessagingService,
+    BulkRecipient,
+    VERIFICATION_PURPOSES,
+    VerificationPurpose,
+    OTP_CHANNELS,
+    OTPDestination,
+    WhatsAppTemplateMessage,
+    OTPHashKey,
+    OTPSendResult,
+    OTPSendError,
     HubtelConfig,
     TwilioConfig,
+    TwilioVoiceConfig,
+    TwilioWhatsAppConfig,
+    WhatsAppCloudConfig,
     MnotifyConfig,
     ArkeselConfig,
     SMTPConfig,
+    SendGridConfig,
+    SESConfig,
+    MailgunConfig,
 } from './messagingService';
+import { MessageQueueConfig } from './messageQueue';
+import { ScheduledMessage } from './messageScheduler';
+import { deliveryReportParsers } from './deliveryReports';
+import { isValidSearchCursor, MESSAGE_CHANNELS, MessageChannel, MessageStatus } from './messageStore';
+import { TemplateVariables, validateTemplate } from './templateService';
+import {
+    OTPPolicy,
+    DEFAULT_OTP_POLICY,
+    normalizeOTPCode,
+    isValidOTPCode,
+    describeOTPFormat,
+    validateOTPPolicy,
+} from './otpPolicy';
+import { API_SCOPES, ApiScope, DEFAULT_TENANT, grantsScope, isValidScopeList, isValidTenantId, secretsMatch } from './auth';
+import { GHANA_COUNTRY_CODE, PhoneParseResult, parsePhoneNumber } from './phoneNumber';
+import { SMSRoutingRule, validateRoutingRule } from './smsRouting';
+import { analyzeSMS, transliterateToGSM } from './smsEncoding';
+import { requestFingerprint } from './idempotency';
+import { metricsRegistry } from './metrics';
+import { BalanceMonitorConfig } from './balanceMonitor';
+import { EmailRequestLimits, isValidEmail, multipartEmailBody, parseEmailRequest } from './emailRequest';
 
 // Load environment variables
 dotenv.config();
@@ -22,6 +59,38 @@ const PORT = process.env.PORT || 3000;
 // Initialize messaging service
 const messagingService = new MessagingService();
 
+// API key authentication is on unless explicitly disabled (local development only)
+const AUTH_ENABLED = process.env.AUTH_ENABLED !== 'false';
+
+// Serialized size limit for the context data stored with an OTP verification
+const OTP_CONTEXT_MAX_LENGTH = 2048;
+
+// Most channel/identifier pairs in one OTP send (primary plus fallbacks)
+const OTP_MAX_DESTINATIONS = 5;
+
+// Calling code assumed for phone numbers in national format (e.g. 0241234567)
+const DEFAULT_COUNTRY_CODE = process.env.DEFAULT_COUNTRY_CODE || GHANA_COUNTRY_CODE;
+
+// Replace characters outside GSM-7 with look-alikes unless a request says otherwise
+const SMS_TRANSLITERATE = process.env.SMS_TRANSLITERATE === 'true';
+
+// Furthest ahead a message can be scheduled
+const SCHEDULE_MAX_DAYS = parseInt(process.env.SCHEDULE_MAX_DAYS || '365');
+
+// Bulk SMS limits
+const BULK_SMS_MAX_RECIPIENTS = parseInt(process.env.BULK_SMS_MAX_RECIPIENTS || '10000');
+const BULK_SMS_CONCURRENCY = parseInt(process.env.BULK_SMS_CONCURRENCY || '10');
+
+// Email limits (recipients count to, cc and bcc together; attachment bytes are the decoded total)
+const EMAIL_MAX_RECIPIENTS = parseInt(process.env.EMAIL_MAX_RECIPIENTS || '50');
+const EMAIL_MAX_ATTACHMENTS = parseInt(process.env.EMAIL_MAX_ATTACHMENTS || '10');
+const EMAIL_MAX_ATTACHMENT_BYTES = parseInt(process.env.EMAIL_MAX_ATTACHMENT_BYTES || String(10 * 1024 * 1024));
+const EMAIL_LIMITS: EmailRequestLimits = {
+    maxRecipients: EMAIL_MAX_RECIPIENTS,
+    maxAttachments: EMAIL_MAX_ATTACHMENTS,
+    maxAttachmentBytes: EMAIL_MAX_ATTACHMENT_BYTES,
+};
+
 // ===========================
 // MIDDLEWARE
 // ===========================
@@ -29,9 +98,187 @@ const messagingService = new MessagingService();
 app.use(helmet()); // Security headers
 app.use(cors()); // Enable CORS
 app.use(morgan('dev')); // HTTP logging
-app.use(express.json()); // Parse JSON bodies
+app.use('/api/email/send', express.json({ limit: Math.ceil(EMAIL_MAX_ATTACHMENT_BYTES * 4 / 3) + 1024 * 1024 })); // Base64 attachments
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '2mb' })); // Parse JSON bodies (bulk sends can be large)
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
 
+/**
+ * Require a valid API key, optionally with a scope ('admin' grants every scope
+ * within its tenant, 'platform' grants everything).
+ * The key's tenant is exposed to routes as res.locals.tenantId.
+ */
+function requireApiKey(scope?: ApiScope) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        if (!AUTH_ENABLED) {
+            res.locals.tenantId = DEFAULT_TENANT;
+            return next();
+        }
+
+        try {
+            const authorization = req.header('authorization');
+            const key = authorization?.startsWith('Bearer ')
+                ? authorization.slice('Bearer '.length).trim()
+                : req.header('x-api-key');
+
+            if (!key) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Missing API key',
+                });
+            }
+
+            const apiKey = await messagingService.getApiKeyStore().authenticate(key);
+            if (!apiKey) {
+                return res.status(401).json({
+                    success: false,
+                    message: 'Invalid API key',
+                });
+            }
+
+            if (scope && !grantsScope(apiKey, scope)) {
+                return res.status(403).json({
+                    success: false,
+                    message: `API key is missing required scope: ${scope}`,
+                });
+            }
+
+            res.locals.apiKey = apiKey;
+            res.locals.tenantId = apiKey.tenantId;
+            next();
+        } catch (error: any) {
+            next(error);
+        }
+    };
+}
+
+/**
+ * Honour an Idempotency-Key header. The first response for a key is stored
+ * and replayed for retries with the same body, without sending again.
+ * Rate-limit responses, and server errors from before the route called
+ * beforeProviderCall, are not stored, so those requests can be retried for
+ * real. Later failures are stored: the message may have gone out anyway
+ * (e.g. a provider timeout), and a retry must not send it twice.
+ */
+function idempotent() {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const key = req.header('idempotency-key');
+        if (key === undefined) return next();
+
+        if (!/^[\x21-\x7e]{1,255}$/.test(key)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Idempotency-Key must be 1-255 printable characters without spaces',
+            });
+        }
+
+        try {
+            const store = messagingService.getIdempotencyStore();
+            const tenantId: string = res.locals.tenantId;
+            const fingerprint = requestFingerprint(req.method, req.path, req.body);
+            const existing = await store.begin(tenantId, key, fingerprint);
+
+            if (existing.state === 'mismatch') {
+                return res.status(422).json({
+                    success: false,
+                    message: 'Idempotency-Key was already used with a different request',
+                });
+            }
+
+            if (existing.state === 'processing') {
+                return res.status(409).json({
+                    success: false,
+                    message: 'A request with this Idempotency-Key is still being processed',
+                });
+            }
+
+            if (existing.state === 'completed') {
+                res.setHeader('Idempotent-Replayed', 'true');
+                return res.status(existing.response.statusCode).json(existing.response.body);
+            }
+
+            // Long requests such as bulk sends must not lose the key while they run
+            const releaseHold = store.holdClaim(tenantId, key);
+            res.on('finish', releaseHold);
+
+            // Store the response before it is sent, so an immediate retry finds it
+            const json = res.json.bind(res);
+            res.json = (body: any) => {
+                releaseHold();
+                const statusCode = res.statusCode;
+                const saved = statusCode === 429 || (statusCode >= 500 && !res.locals.providerCalled)
+                    ? store.release(tenantId, key)
+                    : store.complete(tenantId, key, fingerprint, { statusCode, body });
+
+                saved
+                    .catch((error) => console.error('Idempotency store error:', error.message))
+                    .finally(() => json(body));
+                return res;
+            };
+
+            next();
+        } catch (error: any) {
+            next(error);
+        }
+    };
+}
+
+/**
+ * Mark that the route is about to call a provider (or queue or schedule a
+ * message), so idempotent() keeps any response from then on
+ */
+function beforeProviderCall(res: Response): void {
+    res.locals.providerCalled = true;
+}
+
+const emailUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { files: EMAIL_MAX_ATTACHMENTS, fileSize: EMAIL_MAX_ATTACHMENT_BYTES },
+}).fields([{ name: 'attachments' }, { name: 'inline' }]);
+
+/**
+ * Accept multipart/form-data on the email endpoint, see multipartEmailBody.
+ * multer only limits each file, so the whole upload is capped by its
+ * Content-Length before anything is buffered.
+ */
+function emailMultipart(req: Request, res: Response, next: NextFunction) {
+    if (!req.is('multipart/form-data')) return next();
+
+    const contentLength = req.headers['content-length'];
+    if (contentLength === undefined) {
+        return res.status(411).json({
+            success: false,
+            message: 'Uploads need a Content-Length header',
+        });
+    }
+    // Allow 1MB on top of the attachments for the text fields and multipart framing
+    if (Number(contentLength) > EMAIL_MAX_ATTACHMENT_BYTES + 1024 * 1024) {
+        return res.status(413).json({
+            success: false,
+            message: `Attachments may total at most ${EMAIL_MAX_ATTACHMENT_BYTES} bytes`,
+        });
+    }
+
+    emailUpload(req, res, (error: any) => {
+        if (error) {
+            return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+                success: false,
+                message: `Invalid upload: ${error.message}`,
+            });
+        }
+
+        const converted = multipartEmailBody(req.body, (req.files || {}) as Record<string, Express.Multer.File[]>);
+        if (converted.error) {
+            return res.status(400).json({
+                success: false,
+                message: converted.error,
+            });
+        }
+
+        req.body = converted.body;
+        next();
+    });
+}
+
 // ===========================
 // VALIDATION HELPERS
 // ===========================
@@ -55,25 +302,202 @@ function validateRequiredFields(
 }
 
 /**
- * Validate phone number format (basic validation)
+ * Parse a phone number into E.164 (see parsePhoneNumber). Fixed-line numbers
+ * are rejected for channels that need a mobile phone.
+ */
+function parsePhone(phone: any, channel: 'sms' | 'voice' | 'whatsapp' = 'sms'): PhoneParseResult {
+    const result = parsePhoneNumber(phone, DEFAULT_COUNTRY_CODE);
+
+    if (result.phone?.lineType === 'fixed_line' && channel !== 'voice') {
+        return {
+            valid: false,
+            message: `${result.phone.e164} is a fixed-line number and cannot receive ${channel === 'sms' ? 'SMS' : 'WhatsApp messages'}`,
+        };
+    }
+
+    return result;
+}
+
+/**
+ * A scheduled message for API responses, with attachment contents emptied
+ * to keep responses small
+ */
+function describeScheduledMessage(message: ScheduledMessage): ScheduledMessage {
+    const { payload } = message;
+    if (payload.channel !== 'email' || !payload.options?.attachments) return message;
+
+    return {
+        ...message,
+        payload: {
+            ...payload,
+            options: {
+                ...payload.options,
+                attachments: payload.options.attachments.map((attachment) => ({ ...attachment, content: '' })),
+            },
+        },
+    };
+}
+
+/**
+ * Whether to transliterate SMS text to GSM-7 (the request's "transliterate"
+ * flag, otherwise SMS_TRANSLITERATE)
+ */
+function shouldTransliterate(req: Request): boolean {
+    return typeof req.body.transliterate === 'boolean' ? req.body.transliterate : SMS_TRANSLITERATE;
+}
+
+/**
+ * Whether the caller asked for queued (asynchronous) delivery
+ */
+function isAsyncRequest(req: Request): boolean {
+    return req.body.async === true || req.query.async === 'true';
+}
+
+/**
+ * Send time requested with sendAt (ISO 8601) or delaySeconds, if any.
+ * Must be in the future and within SCHEDULE_MAX_DAYS.
+ */
+function parseSendAt(body: any): { sendAt?: Date; error?: string } {
+    const { sendAt, delaySeconds } = body;
+    if (sendAt === undefined && delaySeconds === undefined) return {};
+
+    if (sendAt !== undefined && delaySeconds !== undefined) {
+        return { error: 'Provide either sendAt or delaySeconds, not both' };
+    }
+
+    let when: Date;
+    if (delaySeconds !== undefined) {
+        if (!Number.isInteger(delaySeconds) || delaySeconds <= 0) {
+            return { error: 'delaySeconds must be a positive integer' };
+        }
+        when = new Date(Date.now() + delaySeconds * 1000);
+    } else {
+        when = new Date(sendAt);
+        if (typeof sendAt !== 'string' || isNaN(when.getTime())) {
+            return { error: 'Invalid sendAt. Use ISO 8601 format, e.g. 2025-01-31T09:00:00Z' };
+        }
+        if (when.getTime() <= Date.now()) {
+            return { error: 'sendAt must be in the future' };
+        }
+    }
+
+    if (when.getTime() > Date.now() + SCHEDULE_MAX_DAYS * 24 * 3600 * 1000) {
+        return { error: `Messages can be scheduled at most ${SCHEDULE_MAX_DAYS} days ahead` };
+    }
+
+    return { sendAt: when };
+}
+
+/**
+ * Whether the caller's key has a scope (always true when authentication is disabled)
+ */
+function hasScope(res: Response, scope: ApiScope): boolean {
+    if (!AUTH_ENABLED) return true;
+    return grantsScope(res.locals.apiKey, scope);
+}
+
+/**
+ * Validate a WhatsApp template message from a request body
+ */
+function isValidWhatsAppTemplate(template: any): template is WhatsAppTemplateMessage {
+    return typeof template === 'object' &&
+        template !== null &&
+        typeof template.name === 'string' && template.name.length > 0 &&
+        (template.language === undefined || typeof template.language === 'string') &&
+        (template.parameters === undefined ||
+            (Array.isArray(template.parameters) && template.parameters.every((p: any) => typeof p === 'string'))) &&
+        (template.copyCode === undefined || typeof template.copyCode === 'string');
+}
+
+/**
+ * Validate an OTP channel/identifier pair. Returns an error message, or null when valid.
+ */
+function validateOTPDestination(destination: any): string | null {
+    if (typeof destination !== 'object' || destination === null) {
+        return 'Each destination must be an object with channel and identifier';
+    }
+
+    const { channel, identifier } = destination;
+
+    if (!(OTP_CHANNELS as readonly string[]).includes(channel)) {
+        return `Invalid channel. Must be one of: ${OTP_CHANNELS.join(', ')}`;
+    }
+
+    if (typeof identifier !== 'string') {
+        return 'identifier must be a string';
+    }
+
+    // Validate identifier based on channel
+    if (channel === 'email') {
+        return isValidEmail(identifier) ? null : 'Invalid email address format';
+    }
+
+    return parsePhone(identifier, channel).message || null;
+}
+
+/**
+ * Validate OTP format against a policy's length and alphabet
+ */
+function isValidOTP(otp: string, policy: OTPPolicy): boolean {
+    return isValidOTPCode(normalizeOTPCode(otp, policy), policy);
+}
+
+/**
+ * Validate an optional template locale; regional tags such as "fr-CI" are accepted.
+ * Returns an error message, or undefined when valid.
+ */
+function validateLocale(locale: any): string | undefined {
+    if (locale === undefined) return undefined;
+
+    if (typeof locale !== 'string' || !/^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{1,8})*$/.test(locale)) {
+        return 'locale must be a language tag such as "en" or "fr-CI"';
+    }
+}
+
+/**
+ * Validate an OTP verification purpose
  */
-function isValidPhone(phone: string): boolean {
-    // Allow international format with + or country code
-    return /^[\d+]{10,15}$/.test(phone.replace(/\s/g, ''));
+function isValidPurpose(purpose: any): purpose is VerificationPurpose {
+    return (VERIFICATION_PURPOSES as readonly string[]).includes(purpose);
 }
 
 /**
- * Validate email format
+ * Validate OTP context data: a small JSON object
  */
-function isValidEmail(email: string): boolean {
-    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+function isValidContext(context: any): boolean {
+    return typeof context === 'object' &&
+        context !== null &&
+        !Array.isArray(context) &&
+        JSON.stringify(context).length <= OTP_CONTEXT_MAX_LENGTH;
 }
 
+const OTP_ERROR_STATUS: Record<OTPSendError, number> = {
+    invalid_request: 400,
+    not_found: 404,
+    conflict: 409,
+    rate_limited: 429,
+    delivery_failed: 502, // the providers failed, not the client
+};
+
 /**
- * Validate OTP format (6 digits)
+ * Respond to a failed OTP send or resend. Rate-limited responses carry a
+ * Retry-After header so clients know when to try again.
  */
-function isValidOTP(otp: string): boolean {
-    return /^\d{6}$/.test(otp);
+function respondOTPFailure(res: Response, result: OTPSendResult) {
+    const status = result.error ? OTP_ERROR_STATUS[result.error] : 500;
+
+    if (status === 429 && result.retryAfter !== undefined) {
+        res.setHeader('Retry-After', String(result.retryAfter));
+    }
+
+    return res.status(status).json({
+        success: false,
+        message: result.message,
+        verificationId: result.verificationId,
+        retryAfter: result.retryAfter,
+        failedProviders: result.failedProviders,
+        failedDestinations: result.failedDestinations,
+    });
 }
 
 // ===========================
@@ -85,36 +509,102 @@ function isValidOTP(otp: string): boolean {
  */
 app.get('/health', (req: Request, res: Response) => {
     const providers = messagingService.getActiveProviders();
+    const circuits = messagingService.getCircuitStatus();
+    const degraded = [...circuits.sms, ...(circuits.email ? [circuits.email] : [])]
+        .some((circuit) => circuit.state !== 'closed');
 
     res.status(200).json({
-        status: 'healthy',
+        status: degraded ? 'degraded' : 'healthy',
         timestamp: new Date().toISOString(),
         providers: {
             sms: providers.sms,
+            smsChain: providers.smsChain,
             email: providers.email,
+            voice: providers.voice,
+            whatsapp: providers.whatsapp,
         },
+        circuits,
     });
 });
 
+/**
+ * Prometheus Metrics
+ * (scrapers send "Authorization: Bearer <METRICS_TOKEN>"; open only when authentication is disabled)
+ */
+app.get('/metrics', async (req: Request, res: Response) => {
+    if (AUTH_ENABLED) {
+        const token = process.env.METRICS_TOKEN;
+        if (!token) {
+            return res.status(503).json({
+                success: false,
+                message: 'Metrics are disabled until METRICS_TOKEN is set',
+            });
+        }
+
+        const authorization = req.header('authorization');
+        const presented = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : undefined;
+        if (!secretsMatch(presented, token)) {
+            return res.status(401).json({
+                success: false,
+                message: 'Invalid metrics token',
+            });
+        }
+    }
+
+    try {
+        res.setHeader('Content-Type', metricsRegistry.contentType);
+        res.status(200).send(await metricsRegistry.metrics());
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
 /**
  * Get Active Providers
  */
-app.get('/api/providers', (req: Request, res: Response) => {
+app.get('/api/providers', requireApiKey(), (req: Request, res: Response) => {
     const providers = messagingService.getActiveProviders();
 
     res.status(200).json({
         success: true,
         providers,
+        circuits: messagingService.getCircuitStatus(),
     });
 });
 
+/**
+ * Get SMS Provider Balances
+ * (the last check; ?refresh=true fetches live, and providers below their
+ * low-balance threshold trigger an alert). Provider accounts are shared by
+ * every tenant, so this needs the platform scope.
+ */
+app.get('/api/providers/balance', requireApiKey('platform'), async (req: Request, res: Response) => {
+    try {
+        const balances = await messagingService.getProviderBalances(req.query.refresh === 'true');
+
+        res.status(200).json({
+            success: true,
+            balances,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
 /**
  * Send SMS
  */
-app.post('/api/sms/send', async (req: Request, res: Response) => {
+app.post('/api/sms/send', requireApiKey('send-sms'), idempotent(), async (req: Request, res: Response) => {
     try {
         // Validate required fields
-        const validation = validateRequiredFields(req.body, ['to', 'message']);
+        // message is optional when a template is used
+        const validation = validateRequiredFields(req.body, req.body.templateId ? ['to'] : ['to', 'message']);
         if (!validation.valid) {
             return res.status(400).json({
                 success: false,
@@ -122,32 +612,1332 @@ app.post('/api/sms/send', async (req: Request, res: Response) => {
             });
         }
 
-        const { to, message } = req.body;
+        const { templateId, locale, variables } = req.body;
+        let { message } = req.body;
+
+        const localeError = validateLocale(locale);
+        if (localeError) {
+            return res.status(400).json({
+                success: false,
+                message: localeError,
+            });
+        }
+
+        // Validate and normalise the phone number
+        const parsed = parsePhone(req.body.to);
+        if (!parsed.phone) {
+            return res.status(400).json({
+                success: false,
+                message: parsed.message,
+            });
+        }
+        const to = parsed.phone.e164;
 
-        // Validate phone number
-        if (!isValidPhone(to)) {
+        const schedule = parseSendAt(req.body);
+        if (schedule.error) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid phone number format',
+                message: schedule.error,
+            });
+        }
+
+        // Render the stored template
+        if (templateId) {
+            const content = await messagingService.renderMessageTemplate(templateId, locale, variables, res.locals.tenantId);
+            if (!content) {
+                return res.status(404).json({
+                    success: false,
+                    message: `Template not found: ${templateId}`,
+                });
+            }
+            if (!content.sms) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Template ${templateId} has no SMS content`,
+                });
+            }
+            message = content.sms;
+        }
+
+        if (shouldTransliterate(req)) {
+            message = transliterateToGSM(message);
+        }
+
+        beforeProviderCall(res);
+
+        // Hold until the requested send time
+        if (schedule.sendAt) {
+            const scheduled = await messagingService.scheduleSMS(to, message, schedule.sendAt, res.locals.tenantId);
+
+            return res.status(202).json({
+                success: true,
+                message: scheduled.message,
+                messageId: scheduled.messageId,
+                sendAt: scheduled.data.sendAt,
+                segments: analyzeSMS(message).segments,
+            });
+        }
+
+        // Queue for background delivery when async mode is requested
+        if (isAsyncRequest(req)) {
+            const queued = await messagingService.enqueueSMS(to, message, res.locals.tenantId);
+
+            return res.status(queued.success ? 202 : 400).json({
+                success: queued.success,
+                message: queued.message,
+                messageId: queued.data?.messageId,
+                segments: analyzeSMS(message).segments,
             });
         }
 
         // Send SMS
-        const result = await messagingService.sendSMS(to, message);
+        const result = await messagingService.sendSMS(to, message, res.locals.tenantId);
 
         if (result.success) {
             res.status(200).json({
                 success: true,
                 message: result.message,
-                provider: messagingService.getActiveProviders().sms,
+                provider: result.provider,
+                failedProviders: result.failedProviders,
+                route: result.route,
+                segments: result.segments,
+                messageId: result.messageId,
                 data: result.data,
             });
         } else {
             res.status(500).json({
                 success: false,
-                message: result.message,
+                message: result.message,
+                failedProviders: result.failedProviders,
+                route: result.route,
+                segments: result.segments,
+                messageId: result.messageId,
+            });
+        }
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Estimate SMS Encoding, Segments and Cost
+ */
+app.post('/api/sms/estimate', requireApiKey('send-sms'), async (req: Request, res: Response) => {
+    try {
+        const { message } = req.body;
+
+        if (typeof message !== 'string' || message.length === 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'message must be a non-empty string',
+            });
+        }
+
+        // The recipient is optional; it narrows the costs to the rules that apply to it
+        let to: string | undefined;
+        if (req.body.to !== undefined) {
+            const parsed = parsePhone(req.body.to);
+            if (!parsed.phone) {
+                return res.status(400).json({
+                    success: false,
+                    message: parsed.message,
+                });
+            }
+            to = parsed.phone.e164;
+        }
+
+        const text = shouldTransliterate(req) ? transliterateToGSM(message) : message;
+        const estimate = await messagingService.estimateSMS(text, to);
+
+        res.status(200).json({
+            success: true,
+            text,
+            transliterated: text !== message,
+            ...estimate,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Send Bulk SMS
+ */
+app.post('/api/sms/bulk', requireApiKey('send-sms'), idempotent(), async (req: Request, res: Response) => {
+    try {
+        // Validate required fields
+        const validation = validateRequiredFields(req.body, req.body.templateId ? ['recipients'] : ['recipients', 'message']);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        const { recipients, templateId, locale } = req.body;
+        const variables: TemplateVariables = req.body.variables || {};
+        let { message } = req.body;
+
+        const localeError = validateLocale(locale);
+        if (localeError) {
+            return res.status(400).json({
+                success: false,
+                message: localeError,
+            });
+        }
+
+        if (!Array.isArray(recipients) || recipients.length === 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'recipients must be a non-empty array',
+            });
+        }
+
+        if (recipients.length > BULK_SMS_MAX_RECIPIENTS) {
+            return res.status(400).json({
+                success: false,
+                message: `Too many recipients. Maximum ${BULK_SMS_MAX_RECIPIENTS} per request`,
+            });
+        }
+
+        // Render the template once; placeholders are filled in per recipient
+        if (templateId) {
+            const content = await messagingService.renderMessageTemplate(templateId, locale, {}, res.locals.tenantId);
+            if (!content) {
+                return res.status(404).json({
+                    success: false,
+                    message: `Template not found: ${templateId}`,
+                });
+            }
+            if (!content.sms) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Template ${templateId} has no SMS content`,
+                });
+            }
+            message = content.sms;
+        }
+
+        // Accept plain numbers or { to, variables } objects; shared variables apply to everyone
+        const normalized: BulkRecipient[] = recipients.map((recipient: any) =>
+            typeof recipient === 'string'
+                ? { to: recipient, variables }
+                : { to: recipient?.to, variables: { ...variables, ...recipient?.variables } }
+        );
+
+        const valid: BulkRecipient[] = [];
+        const invalid: { to: any; message: string }[] = [];
+        for (const recipient of normalized) {
+            const parsed = parsePhone(recipient.to);
+            if (parsed.phone) {
+                valid.push({ ...recipient, to: parsed.phone.e164 });
+            } else {
+                invalid.push({ to: recipient.to, message: parsed.message! });
+            }
+        }
+
+        beforeProviderCall(res);
+        const report = valid.length > 0
+            ? await messagingService.sendBulkSMS(valid, message, {
+                concurrency: BULK_SMS_CONCURRENCY,
+                tenantId: res.locals.tenantId,
+                transliterate: shouldTransliterate(req),
+            })
+            : { total: 0, sent: 0, failed: 0, results: [] };
+
+        // Invalid numbers are reported per recipient instead of failing the whole request
+        for (const recipient of invalid) {
+            report.results.push({
+                to: String(recipient.to),
+                success: false,
+                message: recipient.message,
+            });
+        }
+        report.total += invalid.length;
+        report.failed += invalid.length;
+
+        const status = report.failed === 0 ? 200 : report.sent > 0 ? 207 : 500;
+
+        res.status(status).json({
+            success: report.failed === 0,
+            message: `${report.sent} of ${report.total} SMS sent`,
+            ...report,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Send Email
+ * (JSON with base64 attachments, or multipart/form-data with file uploads)
+ */
+app.post('/api/email/send', requireApiKey('send-email'), emailMultipart, idempotent(), async (req: Request, res: Response) => {
+    try {
+        // Validate required fields
+        // subject and htmlBody are optional when a template is used
+        const validation = validateRequiredFields(req.body, req.body.templateId ? ['to'] : ['to', 'subject', 'htmlBody']);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        const { templateId, locale, variables } = req.body;
+        let { subject, htmlBody, textBody } = req.body;
+
+        const localeError = validateLocale(locale);
+        if (localeError) {
+            return res.status(400).json({
+                success: false,
+                message: localeError,
+            });
+        }
+
+        // Validate recipients, headers and attachments
+        const email = parseEmailRequest(req.body, EMAIL_LIMITS);
+        if (email.error) {
+            return res.status(email.status || 400).json({
+                success: false,
+                message: email.error,
+            });
+        }
+        const to = email.to!;
+
+        const schedule = parseSendAt(req.body);
+        if (schedule.error) {
+            return res.status(400).json({
+                success: false,
+                message: schedule.error,
+            });
+        }
+
+        // Render the stored template
+        if (templateId) {
+            const content = await messagingService.renderMessageTemplate(templateId, locale, variables, res.locals.tenantId);
+            if (!content) {
+                return res.status(404).json({
+                    success: false,
+                    message: `Template not found: ${templateId}`,
+                });
+            }
+            if (!content.emailSubject || !(content.emailHtml || content.emailText)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Template ${templateId} has no email content`,
+                });
+            }
+            subject = content.emailSubject;
+            htmlBody = content.emailHtml || content.emailText;
+            textBody = content.emailText;
+        }
+
+        beforeProviderCall(res);
+
+        // Hold until the requested send time
+        if (schedule.sendAt) {
+            const scheduled = await messagingService.scheduleEmail(
+                to,
+                subject,
+                htmlBody,
+                textBody || '',
+                schedule.sendAt,
+                res.locals.tenantId,
+                email.options
+            );
+
+            return res.status(202).json({
+                success: true,
+                message: scheduled.message,
+                messageId: scheduled.messageId,
+                sendAt: scheduled.data.sendAt,
+            });
+        }
+
+        // Queue for background delivery when async mode is requested
+        if (isAsyncRequest(req)) {
+            const queued = await messagingService.enqueueEmail(
+                to,
+                subject,
+                htmlBody,
+                textBody || '',
+                res.locals.tenantId,
+                email.options
+            );
+
+            return res.status(queued.success ? 202 : 400).json({
+                success: queued.success,
+                message: queued.message,
+                messageId: queued.data?.messageId,
+            });
+        }
+
+        // Send email
+        const result = await messagingService.sendEmail(
+            to,
+            subject,
+            htmlBody,
+            textBody || '',
+            res.locals.tenantId,
+            email.options
+        );
+
+        if (result.success) {
+            res.status(200).json({
+                success: true,
+                message: result.message,
+                provider: messagingService.getActiveProviders().email,
+                messageId: result.messageId,
+                data: result.data,
+            });
+        } else {
+            res.status(500).json({
+                success: false,
+                message: result.message,
+                messageId: result.messageId,
+            });
+        }
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Send WhatsApp Message
+ */
+app.post('/api/whatsapp/send', requireApiKey('send-whatsapp'), idempotent(), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequiredFields(req.body, ['to']);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        const { message, template } = req.body;
+
+        const parsed = parsePhone(req.body.to, 'whatsapp');
+        if (!parsed.phone) {
+            return res.status(400).json({
+                success: false,
+                message: parsed.message,
+            });
+        }
+        const to = parsed.phone.e164;
+
+        // Exactly one of a free-form session message or an approved template
+        if ((message === undefined) === (template === undefined)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Provide either message (session message) or template (approved template)',
+            });
+        }
+
+        if (message !== undefined && (typeof message !== 'string' || message.length === 0)) {
+            return res.status(400).json({
+                success: false,
+                message: 'message must be a non-empty string',
+            });
+        }
+
+        if (template !== undefined && !isValidWhatsAppTemplate(template)) {
+            return res.status(400).json({
+                success: false,
+                message: 'template must have a name, and optional language, parameters (strings) and copyCode',
+            });
+        }
+
+        beforeProviderCall(res);
+        const result = template
+            ? await messagingService.sendWhatsAppTemplate(to, template, res.locals.tenantId)
+            : await messagingService.sendWhatsApp(to, message, res.locals.tenantId);
+
+        if (result.success) {
+            res.status(200).json({
+                success: true,
+                message: result.message,
+                provider: result.provider,
+                messageId: result.messageId,
+                data: result.data,
+            });
+        } else {
+            res.status(500).json({
+                success: false,
+                message: result.message,
+                messageId: result.messageId,
+            });
+        }
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Send OTP
+ */
+app.post('/api/otp/send', requireApiKey('otp'), idempotent(), async (req: Request, res: Response) => {
+    try {
+        // Validate required fields: one channel/identifier pair, or an ordered list of them
+        const usesChannelList = req.body.channels !== undefined;
+        const validation = validateRequiredFields(
+            req.body,
+            usesChannelList ? ['channels', 'purpose'] : ['channel', 'identifier', 'purpose']
+        );
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        const { purpose, context, brandName, templateId, locale, variables, policy } = req.body;
+        const destinations: OTPDestination[] = usesChannelList
+            ? req.body.channels
+            : [{ channel: req.body.channel, identifier: req.body.identifier }];
+
+        if (!isValidPurpose(purpose)) {
+            return res.status(400).json({
+                success: false,
+                message: `Invalid purpose. Must be one of: ${VERIFICATION_PURPOSES.join(', ')}`,
+            });
+        }
+
+        const localeError = validateLocale(locale);
+        if (localeError) {
+            return res.status(400).json({
+                success: false,
+                message: localeError,
+            });
+        }
+
+        if (context !== undefined && !isValidContext(context)) {
+            return res.status(400).json({
+                success: false,
+                message: `context must be a JSON object of at most ${OTP_CONTEXT_MAX_LENGTH} characters`,
+            });
+        }
+
+        if (!Array.isArray(destinations) || destinations.length === 0 || destinations.length > OTP_MAX_DESTINATIONS) {
+            return res.status(400).json({
+                success: false,
+                message: `channels must be a list of 1 to ${OTP_MAX_DESTINATIONS} channel/identifier pairs`,
+            });
+        }
+
+        for (const destination of destinations) {
+            const error = validateOTPDestination(destination);
+            if (error) {
+                return res.status(400).json({
+                    success: false,
+                    message: error,
+                });
+            }
+        }
+
+        if (policy !== undefined && !messagingService.getOTPPolicy(policy)) {
+            return res.status(400).json({
+                success: false,
+                message: `Unknown OTP policy: ${policy}`,
+            });
+        }
+
+        // Send OTP; destinations after the first are fallbacks
+        const [primary, ...fallback] = destinations;
+        beforeProviderCall(res);
+        const result = await messagingService.sendOTP(primary.channel, primary.identifier, purpose, {
+            brandName,
+            tenantId: res.locals.tenantId,
+            templateId,
+            locale,
+            variables,
+            policy,
+            context,
+            fallback: fallback.map(({ channel, identifier }) => ({ channel, identifier })),
+        });
+
+        if (result.success) {
+            res.status(200).json({
+                success: true,
+                message: result.message,
+                verificationId: result.verificationId,
+                purpose,
+                expiresAt: result.expiresAt,
+                provider: result.provider,
+                messageId: result.messageId,
+                segments: result.segments,
+                retryAfter: result.retryAfter,
+                destination: result.destination,
+                failedDestinations: result.failedDestinations,
+            });
+        } else {
+            respondOTPFailure(res, result);
+        }
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Resend OTP for a pending verification, subject to the resend cooldown
+ */
+app.post('/api/otp/resend', requireApiKey('otp'), idempotent(), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRequiredFields(req.body, ['verificationId']);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        beforeProviderCall(res);
+        const result = await messagingService.resendOTP(String(req.body.verificationId), res.locals.tenantId);
+
+        if (result.success) {
+            res.status(200).json({
+                success: true,
+                message: result.message,
+                verificationId: result.verificationId,
+                expiresAt: result.expiresAt,
+                provider: result.provider,
+                messageId: result.messageId,
+                segments: result.segments,
+                retryAfter: result.retryAfter,
+                destination: result.destination,
+                failedDestinations: result.failedDestinations,
+            });
+        } else {
+            respondOTPFailure(res, result);
+        }
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * List OTP Policies
+ */
+app.get('/api/otp/policies', requireApiKey('otp'), (req: Request, res: Response) => {
+    res.status(200).json({
+        success: true,
+        policies: messagingService.getOTPPolicies(),
+    });
+});
+
+/**
+ * Verify OTP
+ */
+app.post('/api/otp/verify', requireApiKey('otp'), async (req: Request, res: Response) => {
+    try {
+        // Validate required fields
+        const validation = validateRequiredFields(req.body, ['verificationId', 'otp']);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        const { verificationId, purpose, policy: policyName } = req.body;
+        const otp = String(req.body.otp);
+
+        if (purpose !== undefined && !isValidPurpose(purpose)) {
+            return res.status(400).json({
+                success: false,
+                message: `Invalid purpose. Must be one of: ${VERIFICATION_PURPOSES.join(', ')}`,
+            });
+        }
+
+        // Without a policy name the code is checked against the policy it was issued under
+        if (policyName !== undefined) {
+            const policy = messagingService.getOTPPolicy(policyName);
+            if (!policy) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Unknown OTP policy: ${policyName}`,
+                });
+            }
+
+            // Validate OTP format
+            if (!isValidOTP(otp, policy)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Invalid OTP format. Must be ${describeOTPFormat(policy)}`,
+                });
+            }
+        }
+
+        // Verify OTP
+        const result = await messagingService.verifyOTP(String(verificationId), otp, res.locals.tenantId, {
+            purpose,
+            policy: policyName,
+        });
+
+        if (result.success) {
+            res.status(200).json({
+                success: true,
+                message: result.message,
+                verification: result.verification,
+            });
+        } else {
+            res.status(result.verification ? 400 : 404).json({
+                success: false,
+                message: result.message,
+                status: result.verification?.status,
+                attemptsRemaining: result.verification?.attemptsRemaining,
+            });
+        }
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Get Verification Status
+ */
+app.get('/api/otp/:verificationId', requireApiKey('otp'), async (req: Request, res: Response) => {
+    try {
+        const verification = await messagingService.getVerification(req.params.verificationId, res.locals.tenantId);
+
+        if (!verification) {
+            return res.status(404).json({
+                success: false,
+                message: 'Verification not found',
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            verification,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Get Queue Statistics
+ * (counts cover every tenant, so this needs the platform scope)
+ */
+app.get('/api/queue/stats', requireApiKey('platform'), async (req: Request, res: Response) => {
+    try {
+        const stats = await messagingService.getQueueStats();
+
+        if (!stats) {
+            return res.status(404).json({
+                success: false,
+                message: 'Async delivery is not enabled',
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            stats,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Get Queued Message
+ */
+app.get('/api/queue/jobs/:id', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const job = await messagingService.getQueuedMessage(req.params.id, res.locals.tenantId);
+
+        if (!job) {
+            return res.status(404).json({
+                success: false,
+                message: 'Queued message not found',
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            job,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Look Up Phone Number
+ * (E.164 form, and line type and network for Ghanaian numbers)
+ */
+app.get('/api/phone/lookup', requireApiKey(), (req: Request, res: Response) => {
+    const result = parsePhoneNumber(req.query.number, DEFAULT_COUNTRY_CODE);
+
+    if (!result.phone) {
+        return res.status(400).json({
+            success: false,
+            message: result.message,
+        });
+    }
+
+    res.status(200).json({
+        success: true,
+        data: result.phone,
+    });
+});
+
+/**
+ * List Scheduled Messages
+ */
+app.get('/api/scheduled', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+        const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+
+        if (isNaN(limit) || limit < 1 || limit > 200 || isNaN(offset) || offset < 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'limit must be from 1 to 200 and offset must be 0 or more',
+            });
+        }
+
+        const messages = await messagingService.listScheduledMessages(res.locals.tenantId, limit, offset);
+
+        res.status(200).json({
+            success: true,
+            data: messages.map(describeScheduledMessage),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Get Scheduling Statistics
+ * (counts cover every tenant, so this needs the platform scope)
+ */
+app.get('/api/scheduled/stats', requireApiKey('platform'), async (req: Request, res: Response) => {
+    try {
+        const stats = await messagingService.getScheduleStats();
+
+        res.status(200).json({
+            success: true,
+            stats,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Get Scheduled Message
+ */
+app.get('/api/scheduled/:id', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const message = await messagingService.getScheduledMessage(req.params.id, res.locals.tenantId);
+
+        if (!message) {
+            return res.status(404).json({
+                success: false,
+                message: 'Scheduled message not found',
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: describeScheduledMessage(message),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Reschedule Message
+ */
+app.patch('/api/scheduled/:id', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const schedule = parseSendAt(req.body);
+        if (!schedule.sendAt) {
+            return res.status(400).json({
+                success: false,
+                message: schedule.error || 'Missing required field: sendAt or delaySeconds',
+            });
+        }
+
+        const existing = await messagingService.getScheduledMessage(req.params.id, res.locals.tenantId);
+        if (!existing) {
+            return res.status(404).json({
+                success: false,
+                message: 'Scheduled message not found',
+            });
+        }
+
+        const scope: ApiScope = existing.payload.channel === 'sms' ? 'send-sms' : 'send-email';
+        if (!hasScope(res, scope)) {
+            return res.status(403).json({
+                success: false,
+                message: `API key is missing required scope: ${scope}`,
+            });
+        }
+
+        const message = await messagingService.rescheduleMessage(req.params.id, schedule.sendAt, res.locals.tenantId);
+        if (!message) {
+            return res.status(409).json({
+                success: false,
+                message: 'Message has already been sent or cancelled',
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: `Message rescheduled for ${message.sendAt}`,
+            data: describeScheduledMessage(message),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Cancel Scheduled Message
+ */
+app.delete('/api/scheduled/:id', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const existing = await messagingService.getScheduledMessage(req.params.id, res.locals.tenantId);
+        if (!existing) {
+            return res.status(404).json({
+                success: false,
+                message: 'Scheduled message not found',
+            });
+        }
+
+        const scope: ApiScope = existing.payload.channel === 'sms' ? 'send-sms' : 'send-email';
+        if (!hasScope(res, scope)) {
+            return res.status(403).json({
+                success: false,
+                message: `API key is missing required scope: ${scope}`,
+            });
+        }
+
+        const message = await messagingService.cancelScheduledMessage(req.params.id, res.locals.tenantId);
+        if (!message) {
+            return res.status(409).json({
+                success: false,
+                message: 'Message has already been sent or cancelled',
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Scheduled message cancelled',
+            data: describeScheduledMessage(message),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Search Message Log
+ */
+app.get('/api/messages', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const { recipient, channel, provider, status, startDate, endDate, limit, cursor } =
+            req.query as Record<string, string | undefined>;
+
+        if (channel && !(MESSAGE_CHANNELS as readonly string[]).includes(channel)) {
+            return res.status(400).json({
+                success: false,
+                message: `Invalid channel. Must be one of: ${MESSAGE_CHANNELS.join(', ')}`,
+            });
+        }
+
+        const statuses = ['queued', 'sent', 'delivered', 'failed', 'undelivered', 'cancelled'];
+        if (status && !statuses.includes(status)) {
+            return res.status(400).json({
+                success: false,
+                message: `Invalid status. Must be one of: ${statuses.join(', ')}`,
+            });
+        }
+
+        const start = startDate ? new Date(startDate) : undefined;
+        const end = endDate ? new Date(endDate) : undefined;
+        if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid date. Use ISO 8601 format for startDate and endDate',
+            });
+        }
+
+        if (cursor !== undefined && (typeof cursor !== 'string' || !isValidSearchCursor(cursor))) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid cursor. Pass the nextCursor value from the previous page',
+            });
+        }
+
+        const result = await messagingService.searchMessages({
+            tenantId: res.locals.tenantId,
+            // Phone numbers are logged in E.164
+            recipient: recipient && !recipient.includes('@')
+                ? parsePhoneNumber(recipient, DEFAULT_COUNTRY_CODE).phone?.e164 || recipient
+                : recipient,
+            channel: channel as MessageChannel | undefined,
+            provider,
+            status: status as MessageStatus | undefined,
+            startDate: start,
+            endDate: end,
+            limit: limit ? parseInt(limit) : undefined,
+            cursor,
+        });
+
+        res.status(200).json({
+            success: true,
+            data: result.messages,
+            nextCursor: result.nextCursor,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Get Message Status and History
+ */
+app.get('/api/messages/:id', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const message = await messagingService.getMessage(req.params.id, res.locals.tenantId);
+
+        if (!message) {
+            return res.status(404).json({
+                success: false,
+                message: 'Message not found',
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: message,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Provider Delivery Report Webhooks
+ * (Hubtel, Twilio, Mnotify, Arkesel - JSON, form or query parameters)
+ */
+async function handleDeliveryReport(req: Request, res: Response) {
+    try {
+        const parse = deliveryReportParsers[req.params.provider.toLowerCase()];
+        if (!parse) {
+            return res.status(404).json({
+                success: false,
+                message: `Unknown delivery report provider: ${req.params.provider}`,
+            });
+        }
+
+        // Shared secret carried in the callback URL; reports are refused until one is set
+        const secret = process.env.WEBHOOK_SECRET;
+        if (!secret) {
+            return res.status(503).json({
+                success: false,
+                message: 'Delivery report webhooks are disabled until WEBHOOK_SECRET is set',
+            });
+        }
+        if (!secretsMatch(req.query.token, secret)) {
+            return res.status(401).json({
+                success: false,
+                message: 'Invalid webhook token',
+            });
+        }
+
+        const report = parse({ ...req.query, ...req.body });
+        if (!report) {
+            // Acknowledge so the provider does not keep retrying
+            return res.status(200).json({
+                success: true,
+                message: 'Report ignored: no recognised delivery status',
+            });
+        }
+
+        const messageId = typeof req.query.messageId === 'string' ? req.query.messageId : undefined;
+        const record = await messagingService.applyDeliveryReport(report, messageId);
+
+        res.status(200).json({
+            success: true,
+            message: record ? 'Delivery report recorded' : 'Report ignored: message not found',
+            messageId: record?.id,
+            status: record?.status,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+}
+
+app.post('/api/webhooks/:provider', handleDeliveryReport);
+app.get('/api/webhooks/:provider', handleDeliveryReport);
+
+/**
+ * Switch SMS Provider at Runtime
+ */
+app.post('/api/providers/sms/switch', requireApiKey('platform'), (req: Request, res: Response) => {
+    try {
+        // Validate required fields
+        const validation = validateRequiredFields(req.body, ['provider', 'credentials']);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        const { provider, credentials } = req.body;
+
+        // Switch provider
+        const result = messagingService.switchSMSProvider({ provider, credentials });
+
+        if (result.success) {
+            res.status(200).json({
+                success: true,
+                message: result.message,
+                activeProvider: result.data?.activeProvider,
+            });
+        } else {
+            res.status(400).json({
+                success: false,
+                message: result.message,
+            });
+        }
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Validate a list of SMS routing rules against the configured providers
+ */
+function validateRoutingRules(rules: any): { valid: boolean; message?: string } {
+    if (!Array.isArray(rules)) {
+        return { valid: false, message: 'rules must be an array' };
+    }
+
+    const providers = messagingService.getActiveProviders().smsChain;
+    for (const rule of rules) {
+        const validation = validateRoutingRule(rule, providers);
+        if (!validation.valid) return validation;
+    }
+
+    const ids = rules.map((rule: SMSRoutingRule) => rule.id);
+    if (new Set(ids).size !== ids.length) {
+        return { valid: false, message: 'Rule IDs must be unique' };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Get SMS Routing Table
+ * (shared by every tenant and holds provider costs, so platform only)
+ */
+app.get('/api/routing/sms', requireApiKey('platform'), async (req: Request, res: Response) => {
+    try {
+        const rules = await messagingService.getSMSRoutingTable().list();
+
+        res.status(200).json({
+            success: true,
+            rules,
+            providerHealth: messagingService.getSMSProviderHealth(),
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Replace SMS Routing Table
+ */
+app.put('/api/routing/sms', requireApiKey('platform'), async (req: Request, res: Response) => {
+    try {
+        const validation = validateRoutingRules(req.body.rules);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        const rules = await messagingService.getSMSRoutingTable().replace(req.body.rules);
+
+        res.status(200).json({
+            success: true,
+            message: `Routing table updated (${rules.length} rules)`,
+            rules,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Add or Replace SMS Routing Rule
+ */
+app.put('/api/routing/sms/:id', requireApiKey('platform'), async (req: Request, res: Response) => {
+    try {
+        const rule = { ...req.body, id: req.params.id };
+
+        const validation = validateRoutingRules([rule]);
+        if (!validation.valid) {
+            return res.status(400).json({
+                success: false,
+                message: validation.message,
+            });
+        }
+
+        const rules = await messagingService.getSMSRoutingTable().upsert(rule);
+
+        res.status(200).json({
+            success: true,
+            message: `Routing rule ${rule.id} saved`,
+            rules,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Delete SMS Routing Rule
+ */
+app.delete('/api/routing/sms/:id', requireApiKey('platform'), async (req: Request, res: Response) => {
+    try {
+        const removed = await messagingService.getSMSRoutingTable().remove(req.params.id);
+
+        if (!removed) {
+            return res.status(404).json({
+                success: false,
+                message: 'Routing rule not found',
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Routing rule deleted',
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * List Templates
+ */
+app.get('/api/templates', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const templates = await messagingService.getTemplateService().list(res.locals.tenantId);
+
+        res.status(200).json({
+            success: true,
+            templates,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Get Template
+ */
+app.get('/api/templates/:id', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const template = await messagingService.getTemplateService().get(res.locals.tenantId, req.params.id);
+
+        if (!template) {
+            return res.status(404).json({
+                success: false,
+                message: 'Template not found',
             });
         }
+
+        res.status(200).json({
+            success: true,
+            template,
+        });
     } catch (error: any) {
         res.status(500).json({
             success: false,
@@ -157,12 +1947,11 @@ app.post('/api/sms/send', async (req: Request, res: Response) => {
 });
 
 /**
- * Send Email
+ * Create Template
  */
-app.post('/api/email/send', async (req: Request, res: Response) => {
+app.post('/api/templates', requireApiKey('templates'), async (req: Request, res: Response) => {
     try {
-        // Validate required fields
-        const validation = validateRequiredFields(req.body, ['to', 'subject', 'htmlBody']);
+        const validation = validateTemplate(req.body);
         if (!validation.valid) {
             return res.status(400).json({
                 success: false,
@@ -170,37 +1959,28 @@ app.post('/api/email/send', async (req: Request, res: Response) => {
             });
         }
 
-        const { to, subject, htmlBody, textBody } = req.body;
+        const templateService = messagingService.getTemplateService();
+        const { id, name, defaultLocale, locales } = req.body;
 
-        // Validate email
-        if (!isValidEmail(to)) {
-            return res.status(400).json({
+        if (await templateService.exists(res.locals.tenantId, id)) {
+            return res.status(409).json({
                 success: false,
-                message: 'Invalid email address format',
+                message: `Template already exists: ${id}`,
             });
         }
 
-        // Send email
-        const result = await messagingService.sendEmail(
-            to,
-            subject,
-            htmlBody,
-            textBody || ''
-        );
+        const template = await templateService.save(res.locals.tenantId, {
+            id,
+            name: name || id,
+            defaultLocale: defaultLocale || 'en',
+            locales,
+        });
 
-        if (result.success) {
-            res.status(200).json({
-                success: true,
-                message: result.message,
-                provider: messagingService.getActiveProviders().email,
-                data: result.data,
-            });
-        } else {
-            res.status(500).json({
-                success: false,
-                message: result.message,
-            });
-        }
+        res.status(201).json({
+            success: true,
+            message: 'Template created',
+            template,
+        });
     } catch (error: any) {
         res.status(500).json({
             success: false,
@@ -210,12 +1990,12 @@ app.post('/api/email/send', async (req: Request, res: Response) => {
 });
 
 /**
- * Send OTP
+ * Update Template
  */
-app.post('/api/otp/send', async (req: Request, res: Response) => {
+app.put('/api/templates/:id', requireApiKey('templates'), async (req: Request, res: Response) => {
     try {
-        // Validate required fields
-        const validation = validateRequiredFields(req.body, ['channel', 'identifier']);
+        const body = { ...req.body, id: req.params.id };
+        const validation = validateTemplate(body);
         if (!validation.valid) {
             return res.status(400).json({
                 success: false,
@@ -223,45 +2003,85 @@ app.post('/api/otp/send', async (req: Request, res: Response) => {
             });
         }
 
-        const { channel, identifier, brandName } = req.body;
+        const template = await messagingService.getTemplateService().save(res.locals.tenantId, {
+            id: body.id,
+            name: body.name || body.id,
+            defaultLocale: body.defaultLocale || 'en',
+            locales: body.locales,
+        });
 
-        // Validate channel
-        if (channel !== 'sms' && channel !== 'email') {
-            return res.status(400).json({
-                success: false,
-                message: 'Invalid channel. Must be "sms" or "email"',
-            });
-        }
+        res.status(200).json({
+            success: true,
+            message: 'Template saved',
+            template,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
 
-        // Validate identifier based on channel
-        if (channel === 'sms' && !isValidPhone(identifier)) {
-            return res.status(400).json({
+/**
+ * Delete Template
+ */
+app.delete('/api/templates/:id', requireApiKey('templates'), async (req: Request, res: Response) => {
+    try {
+        const deleted = await messagingService.getTemplateService().delete(res.locals.tenantId, req.params.id);
+
+        if (!deleted) {
+            return res.status(404).json({
                 success: false,
-                message: 'Invalid phone number format',
+                message: 'Template not found',
             });
         }
 
-        if (channel === 'email' && !isValidEmail(identifier)) {
+        res.status(200).json({
+            success: true,
+            message: 'Template deleted',
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
+
+/**
+ * Preview Template
+ */
+app.post('/api/templates/:id/preview', requireApiKey(), async (req: Request, res: Response) => {
+    try {
+        const { locale, variables } = req.body;
+
+        const localeError = validateLocale(locale);
+        if (localeError) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid email address format',
+                message: localeError,
             });
         }
 
-        // Send OTP
-        const result = await messagingService.sendOTP(channel, identifier, brandName);
+        const rendered = await messagingService.renderMessageTemplate(
+            req.params.id,
+            locale,
+            variables,
+            res.locals.tenantId
+        );
 
-        if (result.success) {
-            res.status(200).json({
-                success: true,
-                message: result.message,
-            });
-        } else {
-            res.status(429).json({
+        if (!rendered) {
+            return res.status(404).json({
                 success: false,
-                message: result.message,
+                message: 'Template not found',
             });
         }
+
+        res.status(200).json({
+            success: true,
+            rendered,
+        });
     } catch (error: any) {
         res.status(500).json({
             success: false,
@@ -271,12 +2091,12 @@ app.post('/api/otp/send', async (req: Request, res: Response) => {
 });
 
 /**
- * Verify OTP
+ * Create API Key
  */
-app.post('/api/otp/verify', async (req: Request, res: Response) => {
+app.post('/api/keys', requireApiKey('admin'), async (req: Request, res: Response) => {
     try {
         // Validate required fields
-        const validation = validateRequiredFields(req.body, ['identifier', 'otp']);
+        const validation = validateRequiredFields(req.body, ['name', 'tenantId', 'scopes']);
         if (!validation.valid) {
             return res.status(400).json({
                 success: false,
@@ -284,30 +2104,39 @@ app.post('/api/otp/verify', async (req: Request, res: Response) => {
             });
         }
 
-        const { identifier, otp } = req.body;
+        const { name, tenantId, scopes } = req.body;
 
-        // Validate OTP format
-        if (!isValidOTP(otp)) {
+        if (!isValidTenantId(tenantId)) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid OTP format. Must be 6 digits',
+                message: 'Invalid tenantId. Use 1-64 letters, digits, "-" or "_"',
             });
         }
 
-        // Verify OTP
-        const result = await messagingService.verifyOTP(identifier, otp);
-
-        if (result.success) {
-            res.status(200).json({
-                success: true,
-                message: result.message,
+        if (!isValidScopeList(scopes)) {
+            return res.status(400).json({
+                success: false,
+                message: `Invalid scopes. Must be a non-empty array of: ${API_SCOPES.join(', ')}`,
             });
-        } else {
-            res.status(400).json({
+        }
+
+        // Tenant admins manage their own tenant's keys and cannot grant platform access
+        if (!hasScope(res, 'platform') && (tenantId !== res.locals.tenantId || scopes.includes('platform'))) {
+            return res.status(403).json({
                 success: false,
-                message: result.message,
+                message: 'Creating keys for other tenants or with the platform scope requires the platform scope',
             });
         }
+
+        const { key, record } = await messagingService.getApiKeyStore().create({ name, tenantId, scopes });
+
+        // The plain key is only ever returned here
+        res.status(201).json({
+            success: true,
+            message: 'API key created. Store it now; it cannot be retrieved again.',
+            key,
+            apiKey: record,
+        });
     } catch (error: any) {
         res.status(500).json({
             success: false,
@@ -317,36 +2146,49 @@ app.post('/api/otp/verify', async (req: Request, res: Response) => {
 });
 
 /**
- * Switch SMS Provider at Runtime
+ * List API Keys
  */
-app.post('/api/providers/sms/switch', (req: Request, res: Response) => {
+app.get('/api/keys', requireApiKey('admin'), async (req: Request, res: Response) => {
     try {
-        // Validate required fields
-        const validation = validateRequiredFields(req.body, ['provider', 'credentials']);
-        if (!validation.valid) {
-            return res.status(400).json({
-                success: false,
-                message: validation.message,
-            });
-        }
+        const tenantId = !hasScope(res, 'platform')
+            ? res.locals.tenantId
+            : typeof req.query.tenantId === 'string' ? req.query.tenantId : undefined;
+        const keys = await messagingService.getApiKeyStore().list(tenantId);
+
+        res.status(200).json({
+            success: true,
+            keys,
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: `Server error: ${error.message}`,
+        });
+    }
+});
 
-        const { provider, credentials } = req.body;
+/**
+ * Revoke API Key
+ */
+app.delete('/api/keys/:id', requireApiKey('admin'), async (req: Request, res: Response) => {
+    try {
+        const store = messagingService.getApiKeyStore();
+        const apiKey = await store.get(req.params.id);
 
-        // Switch provider
-        const result = messagingService.switchSMSProvider({ provider, credentials });
+        // Other tenants' keys are reported as missing rather than forbidden
+        const visible = apiKey && (hasScope(res, 'platform') || apiKey.tenantId === res.locals.tenantId);
 
-        if (result.success) {
-            res.status(200).json({
-                success: true,
-                message: result.message,
-                activeProvider: result.data?.activeProvider,
-            });
-        } else {
-            res.status(400).json({
+        if (!visible || !(await store.revoke(apiKey.id))) {
+            return res.status(404).json({
                 success: false,
-                message: result.message,
+                message: 'API key not found',
             });
         }
+
+        res.status(200).json({
+            success: true,
+            message: 'API key revoked',
+        });
     } catch (error: any) {
         res.status(500).json({
             success: false,
@@ -388,13 +2230,34 @@ app.use((err: any, req: Request, res: Response, next: NextFunction) => {
 // ===========================
 
 /**
- * Load SMS provider configuration from environment
+ * Load the ordered SMS provider chain from environment.
+ * SMS_PROVIDERS (comma-separated, e.g. "arkesel,hubtel,twilio") takes
+ * precedence over the single SMS_PROVIDER.
  */
-function loadSMSProviderConfig(): { provider: string; credentials: any } | null {
-    const provider = process.env.SMS_PROVIDER;
+function loadSMSProviderConfigs(): { provider: string; credentials: any }[] {
+    const providers = (process.env.SMS_PROVIDERS || process.env.SMS_PROVIDER || '')
+        .split(',')
+        .map((provider) => provider.trim())
+        .filter((provider) => provider.length > 0);
+
+    const configs: { provider: string; credentials: any }[] = [];
+
+    for (const provider of providers) {
+        const config = loadSMSProviderConfig(provider);
+        if (config) {
+            configs.push(config);
+        } else {
+            console.warn(`⚠️  Unknown SMS provider in configuration: ${provider}`);
+        }
+    }
 
-    if (!provider) return null;
+    return configs;
+}
 
+/**
+ * Load a single SMS provider's configuration from environment
+ */
+function loadSMSProviderConfig(provider: string): { provider: string; credentials: any } | null {
     switch (provider.toLowerCase()) {
         case 'hubtel':
             return {
@@ -403,6 +2266,7 @@ function loadSMSProviderConfig(): { provider: string; credentials: any } | null
                     clientId: process.env.HUBTEL_CLIENT_ID,
                     clientSecret: process.env.HUBTEL_CLIENT_SECRET,
                     senderId: process.env.HUBTEL_SENDER_ID,
+                    prepaidAccountId: process.env.HUBTEL_PREPAID_ACCOUNT_ID,
                 } as HubtelConfig,
             };
 
@@ -413,6 +2277,7 @@ function loadSMSProviderConfig(): { provider: string; credentials: any } | null
                     accountSid: process.env.TWILIO_ACCOUNT_SID,
                     authToken: process.env.TWILIO_AUTH_TOKEN,
                     fromNumber: process.env.TWILIO_FROM_NUMBER,
+                    statusCallbackUrl: process.env.TWILIO_STATUS_CALLBACK_URL,
                 } as TwilioConfig,
             };
 
@@ -447,22 +2312,296 @@ function loadEmailProviderConfig(): { provider: string; credentials: any } | nul
 
     if (!provider) return null;
 
-    if (provider.toLowerCase() === 'smtp') {
-        return {
-            provider: 'smtp',
-            credentials: {
-                host: process.env.SMTP_HOST || 'localhost',
-                port: parseInt(process.env.SMTP_PORT || '587'),
-                username: process.env.SMTP_USERNAME,
-                password: process.env.SMTP_PASSWORD,
-                fromEmail: process.env.SMTP_FROM_EMAIL || 'noreply@example.com',
-                fromName: process.env.SMTP_FROM_NAME || 'BlazeSend',
-                useTLS: process.env.SMTP_USE_TLS === 'true',
-            } as SMTPConfig,
-        };
+    const fromEmail = process.env.EMAIL_FROM_ADDRESS || process.env.SMTP_FROM_EMAIL || 'noreply@example.com';
+    const fromName = process.env.EMAIL_FROM_NAME || process.env.SMTP_FROM_NAME || 'BlazeSend';
+
+    switch (provider.toLowerCase()) {
+        case 'smtp':
+            return {
+                provider: 'smtp',
+                credentials: {
+                    host: process.env.SMTP_HOST || 'localhost',
+                    port: parseInt(process.env.SMTP_PORT || '587'),
+                    username: process.env.SMTP_USERNAME,
+                    password: process.env.SMTP_PASSWORD,
+                    fromEmail: process.env.SMTP_FROM_EMAIL || 'noreply@example.com',
+                    fromName: process.env.SMTP_FROM_NAME || 'BlazeSend',
+                    useTLS: process.env.SMTP_USE_TLS === 'true',
+                } as SMTPConfig,
+            };
+
+        case 'sendgrid':
+            return {
+                provider: 'sendgrid',
+                credentials: {
+                    apiKey: process.env.SENDGRID_API_KEY,
+                    fromEmail,
+                    fromName,
+                    baseUrl: process.env.SENDGRID_API_URL,
+                } as SendGridConfig,
+            };
+
+        case 'aws-ses':
+        case 'ses':
+            return {
+                provider: 'aws-ses',
+                credentials: {
+                    accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+                    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+                    sessionToken: process.env.AWS_SESSION_TOKEN,
+                    region: process.env.AWS_SES_REGION || 'us-east-1',
+                    fromEmail,
+                    fromName,
+                    endpoint: process.env.AWS_SES_ENDPOINT,
+                } as SESConfig,
+            };
+
+        case 'mailgun':
+            return {
+                provider: 'mailgun',
+                credentials: {
+                    apiKey: process.env.MAILGUN_API_KEY,
+                    domain: process.env.MAILGUN_DOMAIN,
+                    fromEmail,
+                    fromName,
+                    region: process.env.MAILGUN_REGION === 'eu' ? 'eu' : 'us',
+                    baseUrl: process.env.MAILGUN_API_URL,
+                } as MailgunConfig,
+            };
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Load voice provider configuration (for voice OTP calls) from environment
+ */
+function loadVoiceProviderConfig(): { provider: string; credentials: any } | null {
+    const provider = process.env.VOICE_PROVIDER;
+
+    if (!provider) return null;
+
+    switch (provider.toLowerCase()) {
+        case 'twilio':
+            return {
+                provider: 'twilio',
+                credentials: {
+                    accountSid: process.env.TWILIO_ACCOUNT_SID,
+                    authToken: process.env.TWILIO_AUTH_TOKEN,
+                    fromNumber: process.env.TWILIO_VOICE_FROM_NUMBER || process.env.TWILIO_FROM_NUMBER,
+                    voice: process.env.TWILIO_VOICE,
+                    language: process.env.TWILIO_VOICE_LANGUAGE,
+                } as TwilioVoiceConfig,
+            };
+
+        default:
+            console.warn(`⚠️  Unknown VOICE_PROVIDER ignored: ${provider}`);
+            return null;
+    }
+}
+
+/**
+ * Load WhatsApp provider configuration from environment
+ */
+function loadWhatsAppProviderConfig(): { provider: string; credentials: any } | null {
+    const provider = process.env.WHATSAPP_PROVIDER;
+
+    if (!provider) return null;
+
+    switch (provider.toLowerCase()) {
+        case 'cloud':
+        case 'meta':
+            return {
+                provider: 'cloud',
+                credentials: {
+                    accessToken: process.env.WHATSAPP_ACCESS_TOKEN,
+                    phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID,
+                    apiVersion: process.env.WHATSAPP_API_VERSION,
+                    otpTemplateName: process.env.WHATSAPP_OTP_TEMPLATE,
+                    otpTemplateLanguage: process.env.WHATSAPP_OTP_TEMPLATE_LANGUAGE,
+                    baseUrl: process.env.WHATSAPP_API_URL,
+                } as WhatsAppCloudConfig,
+            };
+
+        case 'twilio':
+            return {
+                provider: 'twilio',
+                credentials: {
+                    accountSid: process.env.TWILIO_ACCOUNT_SID,
+                    authToken: process.env.TWILIO_AUTH_TOKEN,
+                    fromNumber: process.env.TWILIO_WHATSAPP_FROM_NUMBER || process.env.TWILIO_FROM_NUMBER,
+                    otpContentSid: process.env.TWILIO_WHATSAPP_OTP_CONTENT_SID,
+                    statusCallbackUrl: process.env.TWILIO_WHATSAPP_STATUS_CALLBACK_URL,
+                } as TwilioWhatsAppConfig,
+            };
+
+        default:
+            console.warn(`⚠️  Unknown WHATSAPP_PROVIDER ignored: ${provider}`);
+            return null;
+    }
+}
+
+/**
+ * Load async send queue configuration from environment
+ */
+function loadQueueConfig(): MessageQueueConfig | null {
+    if (process.env.QUEUE_ENABLED !== 'true') return null;
+
+    return {
+        maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '5'),
+        baseDelayMs: parseInt(process.env.QUEUE_BASE_DELAY_MS || '2000'),
+        maxDelayMs: parseInt(process.env.QUEUE_MAX_DELAY_MS || '300000'),
+        pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '1000'),
+        concurrency: parseInt(process.env.QUEUE_CONCURRENCY || '5'),
+    };
+}
+
+/**
+ * Load per-provider numbers such as PROVIDER_TIMEOUTS.
+ * Format: comma-separated "provider:number" entries, e.g. "hubtel:5000,smtp:15000".
+ * Values must be positive; anything else is skipped with a warning.
+ */
+function loadProviderValues(variable: string): Record<string, number> {
+    const entries = (process.env[variable] || '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+
+    const values: Record<string, number> = {};
+    for (const entry of entries) {
+        const [provider, raw] = entry.split(':');
+        const value = parseFloat(raw);
+
+        if (!provider || !(value > 0)) {
+            console.warn(`⚠️  Ignoring malformed ${variable} entry "${entry}"`);
+            continue;
+        }
+
+        values[provider.toLowerCase()] = value;
+    }
+
+    return values;
+}
+
+/**
+ * Load provider balance polling and low-balance alert settings from environment
+ */
+function loadBalanceMonitorConfig(): BalanceMonitorConfig {
+    return {
+        pollIntervalMs: parseInt(process.env.BALANCE_POLL_INTERVAL_MS || '900000'),
+        thresholds: loadProviderValues('LOW_BALANCE_THRESHOLDS'),
+        defaultThreshold: process.env.LOW_BALANCE_THRESHOLD ? parseFloat(process.env.LOW_BALANCE_THRESHOLD) : undefined,
+        webhookUrl: process.env.BALANCE_ALERT_WEBHOOK_URL || undefined,
+    };
+}
+
+/**
+ * Load named OTP policies from OTP_POLICIES, a JSON object keyed by policy name.
+ * Fields left out are taken from the built-in default policy.
+ */
+function loadOTPPolicies(): OTPPolicy[] {
+    if (!process.env.OTP_POLICIES) return [];
+
+    let definitions: Record<string, Partial<OTPPolicy>>;
+    try {
+        definitions = JSON.parse(process.env.OTP_POLICIES);
+    } catch {
+        console.warn('⚠️  Ignoring OTP_POLICIES: not valid JSON');
+        return [];
+    }
+
+    const policies: OTPPolicy[] = [];
+    for (const [name, definition] of Object.entries(definitions)) {
+        const policy = { ...DEFAULT_OTP_POLICY, ...definition, name };
+        const validation = validateOTPPolicy(policy);
+
+        if (!validation.valid) {
+            console.warn(`⚠️  Ignoring OTP policy "${name}": ${validation.message}`);
+            continue;
+        }
+
+        policies.push(policy);
+    }
+
+    return policies;
+}
+
+/**
+ * The example values in .env.example must never reach production
+ */
+function isPlaceholderSecret(value: string): boolean {
+    return value.toLowerCase().startsWith('change-me');
+}
+
+/**
+ * Load OTP HMAC secrets from OTP_HMAC_SECRETS.
+ * Format: comma-separated "keyId:secret" entries, current key first.
+ */
+function loadOTPHashKeys(): OTPHashKey[] {
+    const entries = (process.env.OTP_HMAC_SECRETS || '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+
+    const keys: OTPHashKey[] = [];
+    for (const entry of entries) {
+        const separator = entry.indexOf(':');
+        const id = entry.slice(0, separator);
+        const secret = entry.slice(separator + 1);
+
+        if (separator < 1 || !/^[a-zA-Z0-9_-]{1,32}$/.test(id) || secret.length < 32) {
+            console.warn(`⚠️  Ignoring malformed OTP_HMAC_SECRETS entry "${id}" (secrets need at least 32 characters)`);
+            continue;
+        }
+
+        if (isPlaceholderSecret(secret)) {
+            throw new Error(`OTP_HMAC_SECRETS entry "${id}" still uses the example secret. Replace it with a long random string.`);
+        }
+
+        keys.push({ id, secret });
+    }
+
+    return keys;
+}
+
+/**
+ * Register API keys from API_KEYS so a fresh deployment has an admin key.
+ * Format: comma-separated "tenant:scope|scope:key" entries.
+ */
+async function bootstrapApiKeys(): Promise<void> {
+    const entries = (process.env.API_KEYS || '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+
+    for (const entry of entries) {
+        // The key itself may contain colons
+        const [tenantId, scopeList] = entry.split(':', 2);
+        const key = entry.slice(`${tenantId}:${scopeList}:`.length);
+        const scopes = (scopeList || '').split('|');
+
+        if (!isValidTenantId(tenantId) || !isValidScopeList(scopes) || !key) {
+            console.warn(`⚠️  Ignoring malformed API_KEYS entry for tenant "${tenantId}"`);
+            continue;
+        }
+
+        if (isPlaceholderSecret(key)) {
+            throw new Error(`API_KEYS entry for tenant "${tenantId}" still uses the example key. Replace it with a long random string.`);
+        }
+
+        await messagingService.getApiKeyStore().register(key, {
+            name: `${tenantId} (API_KEYS)`,
+            tenantId,
+            scopes,
+        });
     }
 
-    return null;
+    if (!AUTH_ENABLED) {
+        console.warn('⚠️  API key authentication is DISABLED (AUTH_ENABLED=false)');
+    } else if ((await messagingService.getApiKeyStore().count()) === 0) {
+        console.warn('⚠️  No API keys configured. Set API_KEYS to create an admin key.');
+    }
 }
 
 /**
@@ -481,10 +2620,37 @@ async function startServer() {
                 password: process.env.REDIS_PASSWORD,
                 username: process.env.REDIS_USERNAME,
             },
-            sms: loadSMSProviderConfig() || undefined,
+            sms: loadSMSProviderConfigs(),
             email: loadEmailProviderConfig() || undefined,
+            voice: loadVoiceProviderConfig() || undefined,
+            whatsapp: loadWhatsAppProviderConfig() || undefined,
+            queue: loadQueueConfig() || undefined,
+            messageRetentionDays: parseInt(process.env.MESSAGE_RETENTION_DAYS || '30'),
+            idempotencyTTLSeconds: parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400'),
+            otpPolicies: loadOTPPolicies(),
+            otpHashKeys: loadOTPHashKeys(),
+            otpFallbackPollMs: parseInt(process.env.OTP_FALLBACK_POLL_INTERVAL_MS || '5000'),
+            schedulerPollMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '1000'),
+            defaultCountryCode: DEFAULT_COUNTRY_CODE,
+            circuitBreaker: {
+                failureThreshold: parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5'),
+                resetTimeoutMs: parseInt(process.env.CIRCUIT_RESET_TIMEOUT_MS || '30000'),
+                timeoutMs: parseInt(process.env.PROVIDER_TIMEOUT_MS || '10000'),
+            },
+            providerTimeouts: loadProviderValues('PROVIDER_TIMEOUTS'),
+            healthProbeIntervalMs: parseInt(process.env.HEALTH_PROBE_INTERVAL_MS || '60000'),
+            balanceMonitor: loadBalanceMonitorConfig(),
         });
 
+        await bootstrapApiKeys();
+
+        if (!process.env.WEBHOOK_SECRET) {
+            console.warn('⚠️  WEBHOOK_SECRET is not set; delivery report webhooks will be refused');
+        }
+        if (AUTH_ENABLED && !process.env.METRICS_TOKEN) {
+            console.warn('⚠️  METRICS_TOKEN is not set; /metrics will be refused');
+        }
+
         // Start Express server
         app.listen(PORT, () => {
             console.log(`\n✅ BlazeSend server running on port ${PORT}`);
@@ -492,8 +2658,10 @@ async function startServer() {
 
             const providers = messagingService.getActiveProviders();
             console.log('Active Providers:');
-            console.log(`  📱 SMS: ${providers.sms}`);
-            console.log(`  📧 Email: ${providers.email}\n`);
+            console.log(`  📱 SMS: ${providers.smsChain.join(' → ') || providers.sms}`);
+            console.log(`  📧 Email: ${providers.email}`);
+            console.log(`  📞 Voice: ${providers.voice}`);
+            console.log(`  💬 WhatsApp: ${providers.whatsapp}\n`);
         });
     } catch (error: any) {
         console.error('❌ Failed to start server:', error.message);
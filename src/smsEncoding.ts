@@ -0,0 +1,122 @@
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export type SMSEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SMSAnalysis {
+    encoding: SMSEncoding;
+    characters: number;
+    units: number; // GSM-7 septets or UCS-2 code units
+    segments: number;
+    unitsPerSegment: number;
+    remaining: number; // units still free in the last segment
+    nonGsmCharacters: string[]; // characters that force UCS-2
+}
+
+// ===========================
+// CHARACTER SETS (GSM 03.38)
+// ===========================
+
+const GSM_BASIC = new Set([
+    ...'@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?',
+    ...'¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà',
+]);
+
+// Sent as an escape plus a character, so each takes two septets
+const GSM_EXTENSION = new Set([...'\f^{}\\[~]|€']);
+
+const GSM_SINGLE_SEGMENT = 160;
+const GSM_MULTI_SEGMENT = 153; // the rest of each part holds the concatenation header
+const UCS2_SINGLE_SEGMENT = 70;
+const UCS2_MULTI_SEGMENT = 67;
+
+/**
+ * Look-alike replacements for common characters outside GSM-7. Letters with
+ * accents not listed here fall back to their base letter when it is in GSM-7.
+ */
+const GSM_TRANSLITERATIONS: Record<string, string> = {
+    '‘': "'", '’': "'", '‚': "'", '‛': "'", '′': "'", '`': "'",
+    '“': '"', '”': '"', '„': '"', '‟': '"', '″': '"', '«': '"', '»': '"',
+    '‐': '-', '‑': '-', '‒': '-', '–': '-', '—': '-', '―': '-', '−': '-',
+    '…': '...', '•': '-', '·': '.',
+    ' ': ' ', ' ': ' ', ' ': ' ', ' ': ' ', ' ': ' ', '\t': ' ',
+    '​': '', '‌': '', '‍': '', '﻿': '',
+    'ç': 'Ç',
+    // Ghanaian language letters (Twi, Ga, Ewe)
+    'ɛ': 'e', 'Ɛ': 'E', 'ɔ': 'o', 'Ɔ': 'O', 'ŋ': 'n', 'Ŋ': 'N',
+};
+
+function isGsmCharacter(char: string): boolean {
+    return GSM_BASIC.has(char) || GSM_EXTENSION.has(char);
+}
+
+// ===========================
+// ANALYSIS
+// ===========================
+
+/**
+ * Work out how a message will be encoded and how many segments it is billed as
+ */
+export function analyzeSMS(message: string): SMSAnalysis {
+    const characters = [...message];
+    const nonGsmCharacters = [...new Set(characters.filter((char) => !isGsmCharacter(char)))];
+    const encoding: SMSEncoding = nonGsmCharacters.length === 0 ? 'GSM-7' : 'UCS-2';
+
+    // Characters outside the BMP (most emoji) take two UCS-2 code units
+    const widths = characters.map((char) =>
+        encoding === 'GSM-7' ? (GSM_EXTENSION.has(char) ? 2 : 1) : char.length
+    );
+    const units = widths.reduce((sum, width) => sum + width, 0);
+
+    const single = encoding === 'GSM-7' ? GSM_SINGLE_SEGMENT : UCS2_SINGLE_SEGMENT;
+    const multi = encoding === 'GSM-7' ? GSM_MULTI_SEGMENT : UCS2_MULTI_SEGMENT;
+
+    if (units <= single) {
+        return {
+            encoding,
+            characters: characters.length,
+            units,
+            segments: units === 0 ? 0 : 1,
+            unitsPerSegment: single,
+            remaining: single - units,
+            nonGsmCharacters,
+        };
+    }
+
+    // An escape sequence or surrogate pair is never split across two segments
+    let segments = 1;
+    let used = 0;
+    for (const width of widths) {
+        if (used + width > multi) {
+            segments++;
+            used = 0;
+        }
+        used += width;
+    }
+
+    return {
+        encoding,
+        characters: characters.length,
+        units,
+        segments,
+        unitsPerSegment: multi,
+        remaining: multi - used,
+        nonGsmCharacters,
+    };
+}
+
+/**
+ * Replace smart quotes, dashes, accented letters and similar with GSM-7
+ * look-alikes so the message is not sent as UCS-2. Characters with no
+ * look-alike (e.g. emoji) are kept.
+ */
+export function transliterateToGSM(message: string): string {
+    return [...message].map((char) => {
+        if (isGsmCharacter(char)) return char;
+        if (char in GSM_TRANSLITERATIONS) return GSM_TRANSLITERATIONS[char];
+
+        const base = char.normalize('NFD').replace(/[̀-ͯ]/g, '');
+        return base.length > 0 && [...base].every(isGsmCharacter) ? base : char;
+    }).join('');
+}
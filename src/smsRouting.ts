@@ -0,0 +1,271 @@
+import { WatchError } from 'redis';
+import type { RedisClient } from './messagingService';
+import { GhanaNetwork, parsePhoneNumber } from './phoneNumber';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export const GHANA_NETWORKS: readonly GhanaNetwork[] = ['MTN', 'Telecel', 'AirtelTigo', 'Glo'];
+
+/**
+ * Send SMS to matching numbers through a provider. A rule with neither
+ * prefix nor network matches every number.
+ */
+export interface SMSRoutingRule {
+    id: string;
+    provider: string; // provider name, e.g. "Arkesel"
+    prefix?: string; // E.164 digits without "+", e.g. "233" (Ghana) or "23324"
+    network?: GhanaNetwork;
+    costPerSegment?: number;
+}
+
+/**
+ * How a send was routed, returned with its result
+ */
+export interface RoutingDecision {
+    providers: string[]; // order the providers were tried in
+    rule?: string; // ID of the rule that picked the first provider
+    costPerSegment?: number;
+    reason: string;
+}
+
+// ===========================
+// ROUTE SELECTION
+// ===========================
+
+/**
+ * How closely a rule matches a number: network rules beat prefix rules, and
+ * longer prefixes beat shorter ones. null when the rule does not match.
+ * Only used to break ties between rules with the same cost.
+ */
+function ruleSpecificity(rule: SMSRoutingRule, digits: string, network?: GhanaNetwork): number | null {
+    if (rule.prefix && !digits.startsWith(rule.prefix)) return null;
+    if (rule.network && rule.network !== network) return null;
+
+    return (rule.network ? 100 : 0) + (rule.prefix?.length || 0);
+}
+
+/**
+ * Rank matching rules cheapest first. Rules without a cost come after every
+ * priced rule, and rules with the same cost are ranked by specificity.
+ */
+function compareMatches(
+    a: { rule: SMSRoutingRule; specificity: number },
+    b: { rule: SMSRoutingRule; specificity: number }
+): number {
+    return (a.rule.costPerSegment ?? Infinity) - (b.rule.costPerSegment ?? Infinity) ||
+        b.specificity - a.specificity;
+}
+
+/**
+ * Order the configured providers for a number. Providers from matching rules
+ * come first, cheapest first (see compareMatches), then the rest of the
+ * failover chain. Unhealthy providers are only tried after every healthy one.
+ */
+export function planRoute(
+    rules: SMSRoutingRule[],
+    to: string,
+    chain: string[],
+    isHealthy: (provider: string) => boolean
+): RoutingDecision {
+    const digits = to.replace(/^\+/, '');
+    const network = parsePhoneNumber(to).phone?.network;
+    const configured = new Map(chain.map((name) => [name.toLowerCase(), name]));
+
+    const matches = rules
+        .map((rule) => ({ rule, specificity: ruleSpecificity(rule, digits, network) }))
+        .filter((match): match is { rule: SMSRoutingRule; specificity: number } =>
+            match.specificity !== null && configured.has(match.rule.provider.toLowerCase())
+        )
+        .sort(compareMatches);
+
+    const ordered: { name: string; rule?: SMSRoutingRule }[] = [];
+    for (const { rule } of matches) {
+        const name = configured.get(rule.provider.toLowerCase())!;
+        if (!ordered.some((entry) => entry.name === name)) ordered.push({ name, rule });
+    }
+    for (const name of chain) {
+        if (!ordered.some((entry) => entry.name === name)) ordered.push({ name });
+    }
+
+    // Stable partition: healthy providers keep their order ahead of unhealthy ones
+    const healthy = ordered.filter((entry) => isHealthy(entry.name));
+    const unhealthy = ordered.filter((entry) => !isHealthy(entry.name));
+    const [first] = [...healthy, ...unhealthy];
+
+    let reason: string;
+    if (!first) {
+        reason = 'No SMS provider configured';
+    } else if (first.rule) {
+        reason = `Matched rule ${first.rule.id}`;
+        if (first.rule.costPerSegment !== undefined) reason += ` at ${first.rule.costPerSegment} per segment`;
+    } else {
+        reason = matches.length > 0 ? 'Matching providers are unhealthy; using the failover chain' : 'No matching rule; using the failover chain';
+    }
+    if (unhealthy.length > 0) {
+        reason += ` (unhealthy, tried last: ${unhealthy.map((entry) => entry.name).join(', ')})`;
+    }
+
+    return {
+        providers: [...healthy, ...unhealthy].map((entry) => entry.name),
+        rule: first?.rule?.id,
+        costPerSegment: first?.rule?.costPerSegment,
+        reason,
+    };
+}
+
+/**
+ * Cost per segment of each configured provider for a number, taken from the
+ * matching rule that planRoute would use for it. Without a number, only
+ * rules that match every number are used.
+ */
+export function providerCosts(
+    rules: SMSRoutingRule[],
+    to: string | undefined,
+    chain: string[]
+): { provider: string; costPerSegment?: number; rule?: string }[] {
+    const digits = to?.replace(/^\+/, '') || '';
+    const network = to ? parsePhoneNumber(to).phone?.network : undefined;
+
+    return chain.map((provider) => {
+        let best: { rule: SMSRoutingRule; specificity: number } | undefined;
+
+        for (const rule of rules) {
+            if (rule.provider.toLowerCase() !== provider.toLowerCase() || rule.costPerSegment === undefined) continue;
+            if (!to && (rule.prefix || rule.network)) continue;
+
+            const specificity = ruleSpecificity(rule, digits, network);
+            if (specificity !== null && (!best || compareMatches({ rule, specificity }, best) < 0)) {
+                best = { rule, specificity };
+            }
+        }
+
+        return { provider, costPerSegment: best?.rule.costPerSegment, rule: best?.rule.id };
+    });
+}
+
+/**
+ * Validate a routing rule from a request body
+ */
+export function validateRoutingRule(rule: any, providers: string[]): { valid: boolean; message?: string } {
+    if (typeof rule !== 'object' || rule === null) {
+        return { valid: false, message: 'Each rule must be an object' };
+    }
+
+    if (typeof rule.id !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(rule.id)) {
+        return { valid: false, message: 'Invalid id. Use 1-64 letters, digits, "-" or "_"' };
+    }
+
+    if (typeof rule.provider !== 'string' || !providers.some((name) => name.toLowerCase() === rule.provider.toLowerCase())) {
+        return { valid: false, message: `provider must be one of the configured SMS providers: ${providers.join(', ')}` };
+    }
+
+    if (rule.prefix !== undefined && (typeof rule.prefix !== 'string' || !/^[1-9]\d{0,14}$/.test(rule.prefix))) {
+        return { valid: false, message: 'prefix must be the leading digits of an E.164 number without "+", e.g. 233 or 23324' };
+    }
+
+    if (rule.network !== undefined && !GHANA_NETWORKS.includes(rule.network)) {
+        return { valid: false, message: `network must be one of: ${GHANA_NETWORKS.join(', ')}` };
+    }
+
+    if (rule.costPerSegment !== undefined && (typeof rule.costPerSegment !== 'number' || !(rule.costPerSegment >= 0))) {
+        return { valid: false, message: 'costPerSegment must be a non-negative number' };
+    }
+
+    return { valid: true };
+}
+
+// ===========================
+// ROUTING TABLE STORE
+// ===========================
+
+/**
+ * SMS routing rules stored in Redis, shared by every server instance and
+ * every tenant. Single-rule edits are optimistic transactions, so concurrent
+ * edits never drop each other's rules.
+ *
+ * Keys:
+ *   routing:sms    Routing rules (JSON array)
+ */
+export class SMSRoutingTable {
+    private readonly KEY = 'routing:sms';
+    private readonly MAX_EDIT_ATTEMPTS = 10;
+    private redisClient: RedisClient;
+
+    constructor(redisClient: RedisClient) {
+        this.redisClient = redisClient;
+    }
+
+    async list(): Promise<SMSRoutingRule[]> {
+        const raw = await this.redisClient.get(this.KEY);
+        return raw ? (JSON.parse(raw) as SMSRoutingRule[]) : [];
+    }
+
+    /**
+     * Replace the whole table
+     */
+    async replace(rules: SMSRoutingRule[]): Promise<SMSRoutingRule[]> {
+        const cleaned = rules.map(toRule);
+        await this.redisClient.set(this.KEY, JSON.stringify(cleaned));
+        return cleaned;
+    }
+
+    /**
+     * Add a rule, or replace the rule with the same ID
+     */
+    async upsert(rule: SMSRoutingRule): Promise<SMSRoutingRule[]> {
+        const updated = await this.edit((rules) => [...rules.filter((existing) => existing.id !== rule.id), toRule(rule)]);
+        return updated!;
+    }
+
+    /**
+     * Remove a rule. Returns false if it did not exist.
+     */
+    async remove(id: string): Promise<boolean> {
+        const updated = await this.edit((rules) => {
+            const remaining = rules.filter((rule) => rule.id !== id);
+            return remaining.length === rules.length ? null : remaining;
+        });
+        return updated !== null;
+    }
+
+    /**
+     * Read, change and write the table, starting over if another instance
+     * wrote it in between. `change` returns null to leave the table as it is.
+     */
+    private async edit(change: (rules: SMSRoutingRule[]) => SMSRoutingRule[] | null): Promise<SMSRoutingRule[] | null> {
+        return this.redisClient.executeIsolated(async (client) => {
+            for (let attempt = 1; ; attempt++) {
+                await client.watch(this.KEY);
+
+                const raw = await client.get(this.KEY);
+                const rules = change(raw ? (JSON.parse(raw) as SMSRoutingRule[]) : []);
+                if (!rules) {
+                    await client.unwatch();
+                    return null;
+                }
+
+                try {
+                    await client.multi().set(this.KEY, JSON.stringify(rules)).exec();
+                    return rules;
+                } catch (error) {
+                    if (!(error instanceof WatchError) || attempt >= this.MAX_EDIT_ATTEMPTS) throw error;
+                }
+            }
+        });
+    }
+}
+
+/**
+ * Keep only the known fields of a rule
+ */
+function toRule(rule: SMSRoutingRule): SMSRoutingRule {
+    return {
+        id: rule.id,
+        provider: rule.provider,
+        prefix: rule.prefix,
+        network: rule.network,
+        costPerSegment: rule.costPerSegment,
+    };
+}
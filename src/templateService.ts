@@ -0,0 +1,389 @@
+import type { RedisClient } from './messagingService';
+
+// ===========================
+// TYPES AND INTERFACES
+// ===========================
+
+export const SUPPORTED_LOCALES = ['en', 'fr', 'tw'] as const;
+
+export type TemplateLocale = typeof SUPPORTED_LOCALES[number];
+
+export type TemplateVariables = Record<string, string | number>;
+
+/**
+ * Content for one locale. A template may define only the channels it is used for.
+ */
+export interface TemplateContent {
+    sms?: string;
+    emailSubject?: string;
+    emailHtml?: string;
+    emailText?: string;
+}
+
+export interface MessageTemplate {
+    id: string;
+    name: string;
+    defaultLocale: TemplateLocale;
+    locales: Partial<Record<TemplateLocale, TemplateContent>>;
+    builtIn?: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface RenderedTemplate extends TemplateContent {
+    templateId: string;
+    locale: TemplateLocale;
+}
+
+const TEMPLATE_FIELDS: (keyof TemplateContent)[] = ['sms', 'emailSubject', 'emailHtml', 'emailText'];
+
+// ===========================
+// RENDERING
+// ===========================
+
+/**
+ * Replace {{name}} placeholders with values; unknown placeholders are left as-is
+ */
+export function renderTemplate(
+    template: string,
+    variables: TemplateVariables = {},
+    options: { escapeHtml?: boolean } = {}
+): string {
+    return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name: string) => {
+        if (variables[name] === undefined) return placeholder;
+
+        const value = String(variables[name]);
+        return options.escapeHtml ? escapeHtml(value) : value;
+    });
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+export function isSupportedLocale(locale: any): locale is TemplateLocale {
+    return (SUPPORTED_LOCALES as readonly string[]).includes(locale);
+}
+
+// ===========================
+// BUILT-IN TEMPLATES
+// ===========================
+
+/**
+ * Wording of the OTP email layout for one locale
+ */
+interface OTPEmailCopy {
+    lang: string;
+    title: string;
+    intro: string;
+    expiry: string;
+    ignore: string;
+    footer: string;
+}
+
+function otpEmailHtml(copy: OTPEmailCopy): string {
+    return `
+<!DOCTYPE html>
+<html lang="${copy.lang}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${copy.title}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f4f4f4;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f4; padding: 20px 0;">
+    <tr>
+      <td align="center">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 20px; text-align: center; border-radius: 8px 8px 0 0;">
+              <h1 style="margin: 0; color: #ffffff; font-size: 28px; font-weight: bold;">{{brandName}}</h1>
+            </td>
+          </tr>
+          
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <h2 style="margin: 0 0 20px 0; color: #333333; font-size: 24px; text-align: center;">${copy.title}</h2>
+              <p style="margin: 0 0 30px 0; color: #666666; font-size: 16px; line-height: 24px; text-align: center;">
+                ${copy.intro}
+              </p>
+              
+              <!-- OTP Display -->
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td align="center">
+                    <div style="background-color: #f8f9fa; border: 2px dashed #667eea; border-radius: 8px; padding: 20px; display: inline-block;">
+                      <span style="font-size: 36px; font-weight: bold; letter-spacing: 8px; color: #667eea; font-family: 'Courier New', monospace;">
+                        {{otp}}
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+              </table>
+              
+              <p style="margin: 30px 0 0 0; color: #666666; font-size: 14px; line-height: 20px; text-align: center;">
+                ${copy.expiry}
+              </p>
+              <p style="margin: 10px 0 0 0; color: #999999; font-size: 13px; line-height: 18px; text-align: center;">
+                ${copy.ignore}
+              </p>
+            </td>
+          </tr>
+          
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #f8f9fa; padding: 20px 30px; text-align: center; border-radius: 0 0 8px 8px;">
+              <p style="margin: 0; color: #999999; font-size: 12px;">
+                ${copy.footer}
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`.trim();
+}
+
+/**
+ * Default wording used when no stored template overrides it.
+ * OTP variables: otp, brandName, ttlMinutes.
+ */
+export const BUILT_IN_TEMPLATES: Record<string, MessageTemplate> = {
+    otp: {
+        id: 'otp',
+        name: 'Verification code',
+        defaultLocale: 'en',
+        builtIn: true,
+        locales: {
+            en: {
+                sms: 'Your verification code is: {{otp}}. Valid for {{ttlMinutes}} minutes. Do not share this code with anyone.',
+                emailSubject: '{{brandName}} - Verification Code',
+                emailHtml: otpEmailHtml({
+                    lang: 'en',
+                    title: 'Verification Code',
+                    intro: 'Please use the following code to complete your verification:',
+                    expiry: 'This code will expire in <strong>{{ttlMinutes}} minutes</strong>.',
+                    ignore: "If you didn't request this code, please ignore this email.",
+                    footer: 'This is an automated message from {{brandName}}. Please do not reply to this email.',
+                }),
+                emailText: 'Your {{brandName}} verification code is: {{otp}}\n\nThis code will expire in {{ttlMinutes}} minutes.\nDo not share this code with anyone.',
+            },
+            fr: {
+                sms: 'Votre code de vérification est : {{otp}}. Valable {{ttlMinutes}} minutes. Ne partagez ce code avec personne.',
+                emailSubject: '{{brandName}} - Code de vérification',
+                emailHtml: otpEmailHtml({
+                    lang: 'fr',
+                    title: 'Code de vérification',
+                    intro: 'Veuillez utiliser le code suivant pour terminer votre vérification :',
+                    expiry: 'Ce code expire dans <strong>{{ttlMinutes}} minutes</strong>.',
+                    ignore: "Si vous n'avez pas demandé ce code, ignorez cet e-mail.",
+                    footer: 'Ceci est un message automatique de {{brandName}}. Merci de ne pas y répondre.',
+                }),
+                emailText: 'Votre code de vérification {{brandName}} est : {{otp}}\n\nCe code expire dans {{ttlMinutes}} minutes.\nNe partagez ce code avec personne.',
+            },
+            tw: {
+                sms: 'Wo verification code ne: {{otp}}. Ɛbɛyɛ adwuma simma {{ttlMinutes}}. Mfa code yi nkyerɛ obiara.',
+                emailSubject: '{{brandName}} - Verification code',
+                emailHtml: otpEmailHtml({
+                    lang: 'tw',
+                    title: 'Verification code',
+                    intro: 'Fa code yi wie wo verification no:',
+                    expiry: 'Code yi bɛyɛ adwuma simma <strong>{{ttlMinutes}}</strong> pɛ.',
+                    ignore: 'Sɛ ɛnyɛ wo na wobisaa code yi a, bu w\'ani gu email yi so.',
+                    footer: '{{brandName}} na ɛde nkrasɛm yi amena wo. Mmua email yi.',
+                }),
+                emailText: 'Wo {{brandName}} verification code ne: {{otp}}\n\nCode yi bɛyɛ adwuma simma {{ttlMinutes}} pɛ.\nMfa code yi nkyerɛ obiara.',
+            },
+        },
+        createdAt: '1970-01-01T00:00:00.000Z',
+        updatedAt: '1970-01-01T00:00:00.000Z',
+    },
+};
+
+/**
+ * Render one field of a built-in template in its default locale
+ */
+export function renderBuiltInTemplate(
+    templateId: string,
+    field: keyof TemplateContent,
+    variables: TemplateVariables
+): string {
+    const template = BUILT_IN_TEMPLATES[templateId];
+    return renderTemplate(template.locales[template.defaultLocale]?.[field] || '', variables, {
+        escapeHtml: field === 'emailHtml',
+    });
+}
+
+// ===========================
+// TEMPLATE STORE
+// ===========================
+
+/**
+ * Named, localised message templates stored in Redis per tenant.
+ * A stored template with the same ID as a built-in one overrides it.
+ *
+ * Keys:
+ *   template:{tenant}:{id}   Template (JSON)
+ *   templates:{tenant}       Set of the tenant's template IDs
+ */
+export class TemplateService {
+    private redisClient: RedisClient;
+
+    constructor(redisClient: RedisClient) {
+        this.redisClient = redisClient;
+    }
+
+    async get(tenantId: string, id: string): Promise<MessageTemplate | null> {
+        const raw = await this.redisClient.get(this.templateKey(tenantId, id));
+        if (raw) return JSON.parse(raw) as MessageTemplate;
+
+        return BUILT_IN_TEMPLATES[id] || null;
+    }
+
+    /**
+     * List the tenant's templates, including built-ins it has not overridden
+     */
+    async list(tenantId: string): Promise<MessageTemplate[]> {
+        const ids = await this.redisClient.sMembers(this.indexKey(tenantId));
+        const templates: MessageTemplate[] = [];
+
+        for (const id of ids) {
+            const raw = await this.redisClient.get(this.templateKey(tenantId, id));
+            if (raw) templates.push(JSON.parse(raw) as MessageTemplate);
+        }
+
+        for (const builtIn of Object.values(BUILT_IN_TEMPLATES)) {
+            if (!ids.includes(builtIn.id)) templates.push(builtIn);
+        }
+
+        return templates.sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    /**
+     * Create or replace a template
+     */
+    async save(
+        tenantId: string,
+        template: Pick<MessageTemplate, 'id' | 'name' | 'defaultLocale' | 'locales'>
+    ): Promise<MessageTemplate> {
+        const existing = await this.redisClient.get(this.templateKey(tenantId, template.id));
+        const now = new Date().toISOString();
+
+        const record: MessageTemplate = {
+            id: template.id,
+            name: template.name,
+            defaultLocale: template.defaultLocale,
+            locales: template.locales,
+            createdAt: existing ? (JSON.parse(existing) as MessageTemplate).createdAt : now,
+            updatedAt: now,
+        };
+
+        await this.redisClient.set(this.templateKey(tenantId, template.id), JSON.stringify(record));
+        await this.redisClient.sAdd(this.indexKey(tenantId), template.id);
+
+        return record;
+    }
+
+    async exists(tenantId: string, id: string): Promise<boolean> {
+        return (await this.redisClient.exists(this.templateKey(tenantId, id))) === 1;
+    }
+
+    /**
+     * Delete a stored template (built-in templates cannot be deleted)
+     */
+    async delete(tenantId: string, id: string): Promise<boolean> {
+        const deleted = await this.redisClient.del(this.templateKey(tenantId, id));
+        await this.redisClient.sRem(this.indexKey(tenantId), id);
+        return deleted > 0;
+    }
+
+    /**
+     * Render a template for a locale. Each field falls back from the
+     * requested locale to the template's default locale.
+     */
+    async render(
+        tenantId: string,
+        id: string,
+        locale: string | undefined,
+        variables: TemplateVariables
+    ): Promise<RenderedTemplate | null> {
+        const template = await this.get(tenantId, id);
+        if (!template) return null;
+
+        // Accept regional tags such as "fr-CI" by matching the base language
+        const requested = typeof locale === 'string' ? locale.toLowerCase().split(/[-_]/)[0] : undefined;
+        const resolvedLocale = isSupportedLocale(requested) && template.locales[requested]
+            ? requested
+            : template.defaultLocale;
+
+        const primary = template.locales[resolvedLocale] || {};
+        const fallback = template.locales[template.defaultLocale] || {};
+        const rendered: RenderedTemplate = { templateId: template.id, locale: resolvedLocale };
+
+        for (const field of TEMPLATE_FIELDS) {
+            const source = primary[field] ?? fallback[field];
+            if (source !== undefined) {
+                rendered[field] = renderTemplate(source, variables, { escapeHtml: field === 'emailHtml' });
+            }
+        }
+
+        return rendered;
+    }
+
+    private templateKey(tenantId: string, id: string): string {
+        return `template:${tenantId}:${id}`;
+    }
+
+    private indexKey(tenantId: string): string {
+        return `templates:${tenantId}`;
+    }
+}
+
+/**
+ * Validate a template definition from a request body
+ */
+export function validateTemplate(body: any): { valid: boolean; message?: string } {
+    if (typeof body.id !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(body.id)) {
+        return { valid: false, message: 'Invalid id. Use 1-64 letters, digits, "-" or "_"' };
+    }
+
+    if (body.defaultLocale !== undefined && !isSupportedLocale(body.defaultLocale)) {
+        return { valid: false, message: `Invalid defaultLocale. Must be one of: ${SUPPORTED_LOCALES.join(', ')}` };
+    }
+
+    if (!body.locales || typeof body.locales !== 'object' || Object.keys(body.locales).length === 0) {
+        return { valid: false, message: 'locales must be an object with at least one locale' };
+    }
+
+    for (const [locale, content] of Object.entries<any>(body.locales)) {
+        if (!isSupportedLocale(locale)) {
+            return { valid: false, message: `Unsupported locale: ${locale}. Must be one of: ${SUPPORTED_LOCALES.join(', ')}` };
+        }
+
+        const fields = Object.keys(content || {});
+        if (fields.length === 0 || fields.some((field) => !TEMPLATE_FIELDS.includes(field as keyof TemplateContent))) {
+            return { valid: false, message: `Locale ${locale} must only contain: ${TEMPLATE_FIELDS.join(', ')}` };
+        }
+
+        if (fields.some((field) => typeof content[field] !== 'string')) {
+            return { valid: false, message: `Locale ${locale} fields must be strings` };
+        }
+    }
+
+    const defaultLocale = body.defaultLocale || 'en';
+    if (!body.locales[defaultLocale]) {
+        return { valid: false, message: `locales must include the default locale (${defaultLocale})` };
+    }
+
+    return { valid: true };
+}
@@ -0,0 +1,171 @@
+// OTP concurrency tests - runs against a local Redis (no server or providers needed)
+// Usage: npm run test:concurrency
+require('dotenv').config();
+const crypto = require('crypto');
+const { OTPService } = require('./dist/messagingService');
+const { DEFAULT_OTP_POLICY } = require('./dist/otpPolicy');
+
+const PARALLEL = 50;
+const tenantId = `concurrency-test-${Date.now()}`;
+const policy = { ...DEFAULT_OTP_POLICY, name: 'concurrency-test', maxAttempts: 3, maxPerHour: 5 };
+
+const otpService = new OTPService();
+let failures = 0;
+
+function check(description, condition, detail) {
+    if (condition) {
+        console.log(`   ✅ ${description}`);
+    } else {
+        failures++;
+        console.log(`   ❌ ${description}${detail ? ` (${detail})` : ''}`);
+    }
+}
+
+async function newSession(identifier, code) {
+    return otpService.createSession({ tenantId, purpose: 'login', channel: 'sms', identifier }, code, policy);
+}
+
+function parallel(task) {
+    return Promise.all(Array.from({ length: PARALLEL }, (_, i) => task(i)));
+}
+
+async function testCorrectCodeConsumedOnce() {
+    console.log(`1️⃣  ${PARALLEL} parallel verifications with the correct code...`);
+    const session = await newSession('233200000001', '123456');
+
+    const results = await parallel(() => otpService.verifyOTP(tenantId, session.id, '123456'));
+    const successes = results.filter((result) => result.valid).length;
+
+    check('exactly one verification succeeds', successes === 1, `${successes} succeeded`);
+    check('the rest report the code as already used',
+        results.filter((result) => result.message === 'OTP has already been used').length === PARALLEL - 1);
+
+    const stored = await otpService.getSession(tenantId, session.id);
+    check('session is verified', stored.status === 'verified', stored.status);
+    console.log('');
+}
+
+async function testWrongGuessesAreCounted() {
+    console.log(`2️⃣  ${PARALLEL} parallel wrong guesses (max ${policy.maxAttempts} attempts)...`);
+    const session = await newSession('233200000002', '123456');
+
+    const results = await parallel((i) => otpService.verifyOTP(tenantId, session.id, String(200000 + i)));
+    const counted = results.filter((result) => result.message.startsWith('Invalid OTP.')).length;
+
+    check(`exactly ${policy.maxAttempts} guesses are evaluated`, counted === policy.maxAttempts, `${counted} evaluated`);
+    check('no guess succeeds', results.every((result) => !result.valid));
+
+    const stored = await otpService.getSession(tenantId, session.id);
+    check('session is locked', stored.status === 'locked', stored.status);
+    check(`attempt counter stops at ${policy.maxAttempts}`, stored.attempts === policy.maxAttempts, String(stored.attempts));
+
+    const late = await otpService.verifyOTP(tenantId, session.id, '123456');
+    check('the correct code is rejected once locked', !late.valid, late.message);
+    console.log('');
+}
+
+async function testCorrectCodeAmongWrongGuesses() {
+    console.log(`3️⃣  Correct code racing ${PARALLEL - 1} wrong guesses...`);
+    const session = await newSession('233200000003', '123456');
+
+    const results = await parallel((i) =>
+        otpService.verifyOTP(tenantId, session.id, i === PARALLEL - 1 ? '123456' : String(300000 + i))
+    );
+    const successes = results.filter((result) => result.valid).length;
+    const stored = await otpService.getSession(tenantId, session.id);
+
+    // The correct code wins only if it runs before the attempts are used up
+    check('at most one verification succeeds', successes <= 1, `${successes} succeeded`);
+    check('session state matches the outcome',
+        successes === 1 ? stored.status === 'verified' : stored.status === 'locked', stored.status);
+    check(`no more than ${policy.maxAttempts} wrong guesses are evaluated`,
+        results.filter((result) => result.message.startsWith('Invalid OTP.')).length <= policy.maxAttempts);
+    console.log('');
+}
+
+async function testRateLimit() {
+    console.log(`4️⃣  ${PARALLEL} parallel sends against a quota of ${policy.maxPerHour} per hour (no cooldown)...`);
+    const noCooldown = { ...policy, resendCooldownSeconds: 0 };
+
+    const results = await parallel(() => otpService.reserveSend('233200000004', tenantId, noCooldown));
+    const allowed = results.filter((result) => result.allowed).length;
+
+    check(`exactly ${policy.maxPerHour} sends are allowed`, allowed === policy.maxPerHour, `${allowed} allowed`);
+    console.log('');
+}
+
+async function testResendCooldown() {
+    console.log(`5️⃣  ${PARALLEL} parallel sends with a ${policy.resendCooldownSeconds}s resend cooldown...`);
+
+    const results = await parallel(() => otpService.reserveSend('233200000007', tenantId, policy));
+    const allowed = results.filter((result) => result.allowed).length;
+
+    check('exactly one send is allowed', allowed === 1, `${allowed} allowed`);
+    check('the rest are told when to retry',
+        results.filter((result) => !result.allowed).every((result) => result.retryAfter > 0));
+    console.log('');
+}
+
+async function testSecretRotation() {
+    console.log('6️⃣  Rotating the HMAC secret while a code is pending...');
+    const oldKey = { id: 'test', secret: crypto.randomBytes(32).toString('hex') };
+    const newKey = { id: 'test-rotated', secret: crypto.randomBytes(32).toString('hex') };
+
+    otpService.setHashKeys([oldKey]);
+    const session = await newSession('233200000005', '123456');
+
+    otpService.setHashKeys([newKey, oldKey]);
+    const result = await otpService.verifyOTP(tenantId, session.id, '123456');
+    check('a code issued under the old secret still verifies', result.valid, result.message);
+
+    const retired = await newSession('233200000006', '123456');
+    otpService.setHashKeys([{ id: 'test-next', secret: crypto.randomBytes(32).toString('hex') }]);
+    const rejected = await otpService.verifyOTP(tenantId, retired.id, '123456');
+    check('a code whose secret was removed is rejected', !rejected.valid, rejected.message);
+    console.log('');
+}
+
+async function cleanup() {
+    const client = otpService.getRedisClient();
+    for await (const key of client.scanIterator({ MATCH: `otp:${tenantId}:*` })) {
+        await client.del(key);
+    }
+}
+
+async function runConcurrencyTests() {
+    console.log('🧪 Testing OTP verification and rate limiting under concurrency...\n');
+
+    await otpService.connect({
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        db: parseInt(process.env.REDIS_DB || '0'),
+        password: process.env.REDIS_PASSWORD,
+        username: process.env.REDIS_USERNAME,
+    });
+    otpService.setPolicies([policy]);
+    otpService.setHashKeys([{ id: 'test', secret: crypto.randomBytes(32).toString('hex') }]);
+
+    try {
+        await testCorrectCodeConsumedOnce();
+        await testWrongGuessesAreCounted();
+        await testCorrectCodeAmongWrongGuesses();
+        await testRateLimit();
+        await testResendCooldown();
+        await testSecretRotation();
+    } finally {
+        await cleanup();
+        await otpService.disconnect();
+    }
+
+    if (failures > 0) {
+        console.log(`❌ ${failures} check(s) failed`);
+        process.exit(1);
+    }
+
+    console.log('🎉 All concurrency checks passed!');
+}
+
+runConcurrencyTests().catch((error) => {
+    console.error('❌ Test run failed:', error.message);
+    process.exit(1);
+});
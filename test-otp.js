@@ -4,6 +4,9 @@ const axios = require('axios');
 const BASE_URL = 'http://localhost:9090';
 const testPhone = '233241234567';
 
+// API key with the "otp" scope (e.g. the admin key from API_KEYS)
+axios.defaults.headers.common['X-API-Key'] = process.env.BLAZESEND_API_KEY || '';
+
 async function testOTPFlow() {
     console.log('🧪 Testing BlazeSend OTP Flow...\n');
 
@@ -29,13 +32,15 @@ async function testOTPFlow() {
         try {
             const otpResponse = await axios.post(`${BASE_URL}/api/otp/send`, {
                 channel: 'sms',
-                identifier: testPhone
+                identifier: testPhone,
+                purpose: 'login'
             });
             console.log('✅ OTP sent successfully!');
             console.log('   Message:', otpResponse.data.message);
+            console.log('   Verification ID:', otpResponse.data.verificationId);
         } catch (error) {
             // This is expected since no SMS provider is configured
-            if (error.response?.status === 500 && error.response.data.message.includes('No SMS provider')) {
+            if (error.response?.status === 502) {
                 console.log('⚠️  OTP was generated and stored in Redis, but SMS sending failed (no provider configured)');
                 console.log('   This is EXPECTED - Redis storage is working! ✅');
             } else {
@@ -50,14 +55,15 @@ async function testOTPFlow() {
             try {
                 await axios.post(`${BASE_URL}/api/otp/send`, {
                     channel: 'sms',
-                    identifier: testPhone
+                    identifier: testPhone,
+                    purpose: 'login'
                 });
                 console.log(`   Attempt ${i}: OTP generated`);
             } catch (error) {
                 if (error.response?.status === 429) {
-                    console.log(`✅ Rate limit kicked in at attempt ${i}! (Max 3 OTPs per hour)`);
+                    console.log(`✅ Rate limit kicked in at attempt ${i}! Retry after ${error.response.headers['retry-after']}s`);
                     break;
-                } else if (error.response?.status === 500) {
+                } else if (error.response?.status === 502) {
                     console.log(`   Attempt ${i}: OTP stored in Redis`);
                 }
             }
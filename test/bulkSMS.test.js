@@ -0,0 +1,60 @@
+// Bulk SMS batching and failover with stand-in providers
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const { SMSService } = require('../dist/messagingService');
+
+/**
+ * A stand-in SMS provider that records every send and answers with `bulkResult`
+ * for native batches
+ */
+function fakeProvider(name, bulkResult) {
+    const calls = { single: [], bulk: [] };
+    return {
+        calls,
+        getProviderName: () => name,
+        sendSMS: async (to) => {
+            calls.single.push(to);
+            return { success: true, message: `sent via ${name}` };
+        },
+        sendBulkSMS: async (to) => {
+            calls.bulk.push(to);
+            return bulkResult;
+        },
+    };
+}
+
+const messages = ['+233241234567', '+233201234567', '+233551234567'].map((to) => ({ to, message: 'Hello' }));
+
+test('a failed batch is sent again one recipient at a time', async () => {
+    const primary = fakeProvider('Primary', { success: false, message: 'Primary Error: unavailable', retryable: true });
+    const service = new SMSService();
+    service.setProviders([primary]);
+
+    const results = await service.sendBulkSMS(messages, 2);
+
+    assert.strictEqual(primary.calls.bulk.length, 1);
+    assert.deepStrictEqual(primary.calls.single.sort(), messages.map(({ to }) => to).sort());
+    assert.ok(results.every((result) => result.success));
+});
+
+test('a timed-out batch is not resent, through any provider', async () => {
+    const primary = fakeProvider('Primary', { success: false, message: 'Primary Error: timed out', retryable: false, timedOut: true });
+    const backup = fakeProvider('Backup');
+    const service = new SMSService();
+    service.setProviders([primary, backup]);
+
+    const results = await service.sendBulkSMS(messages, 2);
+
+    assert.strictEqual(primary.calls.bulk.length, 1);
+    assert.deepStrictEqual(primary.calls.single, []);
+    assert.deepStrictEqual(backup.calls.single, []);
+    assert.deepStrictEqual(backup.calls.bulk, []);
+
+    for (const result of results) {
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.timedOut, true);
+        assert.strictEqual(result.retryable, false);
+        assert.strictEqual(result.segments, 1);
+    }
+});
@@ -0,0 +1,118 @@
+// Circuit breaker states and provider timeouts
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const { CircuitBreaker } = require('../dist/circuitBreaker');
+const { SendGridProvider } = require('../dist/messagingService');
+
+const config = { failureThreshold: 2, resetTimeoutMs: 50, timeoutMs: 100 };
+
+const sent = async () => ({ success: true, message: 'sent' });
+const unavailable = async () => ({ success: false, message: 'unavailable', retryable: true });
+const rejected = async () => ({ success: false, message: 'invalid number', retryable: false });
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('opens after consecutive retryable failures and stops calling the provider', async () => {
+    const breaker = new CircuitBreaker('Test', config);
+    await breaker.call(unavailable);
+    assert.strictEqual(breaker.getState(), 'closed');
+    await breaker.call(unavailable);
+    assert.strictEqual(breaker.getState(), 'open');
+
+    let called = false;
+    const result = await breaker.call(async () => {
+        called = true;
+        return sent();
+    });
+
+    assert.strictEqual(called, false);
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.retryable, true);
+});
+
+test('permanent errors do not count as failures', async () => {
+    const breaker = new CircuitBreaker('Test', config);
+    await breaker.call(unavailable);
+    await breaker.call(rejected);
+    await breaker.call(unavailable);
+
+    assert.strictEqual(breaker.getState(), 'closed');
+});
+
+test('half-open allows one trial call, and success closes the circuit', async () => {
+    const breaker = new CircuitBreaker('Test', config);
+    await breaker.call(unavailable);
+    await breaker.call(unavailable);
+    await sleep(config.resetTimeoutMs + 20);
+    assert.strictEqual(breaker.getState(), 'half_open');
+
+    const trial = breaker.call(async () => {
+        await sleep(10);
+        return sent();
+    });
+    const second = await breaker.call(sent);
+
+    assert.strictEqual(second.success, false);
+    assert.strictEqual((await trial).success, true);
+    assert.strictEqual(breaker.getState(), 'closed');
+});
+
+test('a failed trial call opens the circuit again', async () => {
+    const breaker = new CircuitBreaker('Test', config);
+    await breaker.call(unavailable);
+    await breaker.call(unavailable);
+    await sleep(config.resetTimeoutMs + 20);
+
+    await breaker.call(unavailable);
+    assert.strictEqual(breaker.getState(), 'open');
+});
+
+test('a timed-out call is not retryable but counts as a failure', async () => {
+    const breaker = new CircuitBreaker('Test', config);
+    const slow = () => new Promise((resolve) => setTimeout(() => resolve({ success: true, message: 'late' }), 300));
+
+    const result = await breaker.call(slow);
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.retryable, false);
+    assert.strictEqual(result.timedOut, true);
+
+    await breaker.call(slow);
+    assert.strictEqual(breaker.getState(), 'open');
+});
+
+test('a failing health check counts as a failure, a passing one half-opens the circuit', async () => {
+    const breaker = new CircuitBreaker('Test', config);
+    breaker.recordProbe(false, 'down');
+    breaker.recordProbe(false, 'down');
+    assert.strictEqual(breaker.getState(), 'open');
+
+    breaker.recordProbe(true);
+    assert.strictEqual(breaker.getState(), 'half_open');
+    assert.strictEqual(breaker.getStatus().lastProbeHealthy, true);
+});
+
+test('providers abandon requests after their timeout and report them as not retryable', async () => {
+    // Accepts the request and never answers
+    const server = http.createServer(() => {});
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+        const provider = new SendGridProvider({
+            apiKey: 'SG.key',
+            fromEmail: 'noreply@example.com',
+            fromName: 'BlazeSend',
+            baseUrl: `http://127.0.0.1:${server.address().port}`,
+            timeoutMs: 50,
+        });
+
+        const result = await provider.sendEmail('user@example.com', 'Hello', '<p>Hi</p>', 'Hi');
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.retryable, false);
+        assert.strictEqual(result.timedOut, true);
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+});
@@ -0,0 +1,104 @@
+// Email providers against a local HTTP stand-in for the provider APIs
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const { SESProvider, SendGridProvider, MailgunProvider } = require('../dist/messagingService');
+
+/**
+ * Start a stand-in API that records requests and answers with `response`
+ */
+async function standIn(response = {}) {
+    const requests = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+            requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(response));
+        });
+    });
+
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return { requests, server, url: `http://127.0.0.1:${server.address().port}` };
+}
+
+const sender = { fromEmail: 'noreply@example.com', fromName: 'BlazeSend' };
+
+test('SES keeps the path prefix of a configured endpoint', async () => {
+    const api = await standIn({ MessageId: 'ses-1' });
+    try {
+        const provider = new SESProvider({
+            ...sender,
+            accessKeyId: 'AKIDEXAMPLE',
+            secretAccessKey: 'secret',
+            region: 'us-east-1',
+            endpoint: `${api.url}/ses/`,
+        });
+
+        const result = await provider.sendEmail('user@example.com', 'Hello', '<p>Hi</p>', 'Hi');
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.data.messageId, 'ses-1');
+        assert.strictEqual(api.requests[0].url, '/ses/v2/email/outbound-emails');
+        assert.match(api.requests[0].headers.authorization, /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\//);
+
+        const payload = JSON.parse(api.requests[0].body);
+        assert.deepStrictEqual(payload.Destination.ToAddresses, ['user@example.com']);
+        assert.strictEqual(payload.Content.Simple.Subject.Data, 'Hello');
+    } finally {
+        api.server.close();
+    }
+});
+
+test('SES sends a simple message when there are no custom headers', async () => {
+    const api = await standIn({ MessageId: 'ses-2' });
+    try {
+        const provider = new SESProvider({
+            ...sender,
+            accessKeyId: 'AKIDEXAMPLE',
+            secretAccessKey: 'secret',
+            region: 'us-east-1',
+            endpoint: api.url,
+        });
+
+        const result = await provider.sendEmail('user@example.com', 'Hello', '<p>Hi</p>', 'Hi', { headers: {} });
+
+        assert.strictEqual(result.success, true);
+        const payload = JSON.parse(api.requests[0].body);
+        assert.strictEqual(payload.Content.Raw, undefined);
+        assert.strictEqual(payload.Content.Simple.Subject.Data, 'Hello');
+    } finally {
+        api.server.close();
+    }
+});
+
+test('SendGrid posts to the configured base URL', async () => {
+    const api = await standIn();
+    try {
+        const provider = new SendGridProvider({ ...sender, apiKey: 'SG.key', baseUrl: api.url });
+        const result = await provider.sendEmail('user@example.com', 'Hello', '<p>Hi</p>', 'Hi');
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(api.requests[0].url, '/v3/mail/send');
+        assert.strictEqual(api.requests[0].headers.authorization, 'Bearer SG.key');
+        assert.deepStrictEqual(JSON.parse(api.requests[0].body).personalizations[0].to, [{ email: 'user@example.com' }]);
+    } finally {
+        api.server.close();
+    }
+});
+
+test('Mailgun posts to the domain messages endpoint', async () => {
+    const api = await standIn({ id: '<mailgun-1>' });
+    try {
+        const provider = new MailgunProvider({ ...sender, apiKey: 'key', domain: 'mg.example.com', baseUrl: api.url });
+        const result = await provider.sendEmail('user@example.com', 'Hello', '<p>Hi</p>', 'Hi');
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(api.requests[0].url, '/v3/mg.example.com/messages');
+        assert.match(api.requests[0].body, /name="to"\r\n\r\nuser@example\.com/);
+    } finally {
+        api.server.close();
+    }
+});
@@ -0,0 +1,76 @@
+// Email request validation and multipart conversion
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const { parseEmailRequest, multipartEmailBody } = require('../dist/emailRequest');
+
+const limits = { maxRecipients: 3, maxAttachments: 2, maxAttachmentBytes: 10 };
+
+const file = (originalname, content = 'hi') => ({ originalname, mimetype: 'image/png', buffer: Buffer.from(content) });
+
+test('accepts a single address or a list, with cc and bcc as options', () => {
+    assert.deepStrictEqual(parseEmailRequest({ to: 'a@example.com' }, limits), { to: ['a@example.com'], options: {} });
+
+    const parsed = parseEmailRequest({ to: ['a@example.com'], cc: 'b@example.com', bcc: ['c@example.com'] }, limits);
+    assert.deepStrictEqual(parsed.to, ['a@example.com']);
+    assert.deepStrictEqual(parsed.options, { cc: ['b@example.com'], bcc: ['c@example.com'] });
+});
+
+test('rejects invalid addresses and counts to, cc and bcc against the recipient limit', () => {
+    assert.strictEqual(parseEmailRequest({ to: [] }, limits).error, 'to, cc and bcc must each be an email address or an array of them');
+    assert.strictEqual(parseEmailRequest({ to: 'a@example.com', cc: [1] }, limits).error, 'to, cc and bcc must each be an email address or an array of them');
+    assert.strictEqual(parseEmailRequest({ to: 'not-an-address' }, limits).error, 'Invalid email address format: not-an-address');
+
+    const tooMany = parseEmailRequest({ to: ['a@example.com', 'b@example.com'], cc: 'c@example.com', bcc: 'd@example.com' }, limits);
+    assert.strictEqual(tooMany.status, 413);
+});
+
+test('rejects reserved and multi-line headers', () => {
+    assert.match(parseEmailRequest({ to: 'a@example.com', headers: { Bcc: 'x@example.com' } }, limits).error, /Header Bcc cannot be set/);
+    assert.match(parseEmailRequest({ to: 'a@example.com', headers: { 'X-Tag': 'a\r\nBcc: x' } }, limits).error, /single-line/);
+    assert.deepStrictEqual(
+        parseEmailRequest({ to: 'a@example.com', headers: { 'X-Tag': 'welcome' } }, limits).options,
+        { headers: { 'X-Tag': 'welcome' } }
+    );
+});
+
+test('checks attachment fields and the decoded total size', () => {
+    const attachment = { filename: 'a.txt', content: Buffer.from('hello').toString('base64') };
+    assert.strictEqual(parseEmailRequest({ to: 'a@example.com', attachments: [attachment] }, limits).options.attachments.length, 1);
+
+    assert.match(parseEmailRequest({ to: 'a@example.com', attachments: [{ ...attachment, filename: '../a.txt' }] }, limits).error, /filename/);
+    assert.match(parseEmailRequest({ to: 'a@example.com', attachments: [{ ...attachment, content: 'not base64!' }] }, limits).error, /base64/);
+    assert.match(parseEmailRequest({ to: 'a@example.com', attachments: [{ ...attachment, contentId: 'logo 1' }] }, limits).error, /invalid contentId/);
+    assert.strictEqual(parseEmailRequest({ to: 'a@example.com', attachments: [attachment, attachment, attachment] }, limits).status, 413);
+
+    const large = { filename: 'b.txt', content: Buffer.from('123456').toString('base64') };
+    const tooLarge = parseEmailRequest({ to: 'a@example.com', attachments: [large, large] }, limits);
+    assert.strictEqual(tooLarge.status, 413);
+    assert.strictEqual(tooLarge.error, 'Attachments may total at most 10 bytes');
+});
+
+test('converts multipart fields to the JSON request types', () => {
+    const { body } = multipartEmailBody(
+        { to: 'a@example.com, b@example.com', async: 'true', delaySeconds: '30', headers: '{"X-Tag":"welcome"}' },
+        { attachments: [file('report.pdf')], inline: [file('logo.png')] }
+    );
+
+    assert.deepStrictEqual(body.to, ['a@example.com', 'b@example.com']);
+    assert.strictEqual(body.async, true);
+    assert.strictEqual(body.delaySeconds, 30);
+    assert.deepStrictEqual(body.headers, { 'X-Tag': 'welcome' });
+    assert.deepStrictEqual(body.attachments.map((a) => [a.filename, a.contentId]), [['report.pdf', undefined], ['logo.png', 'logo.png']]);
+    assert.strictEqual(body.attachments[0].content, Buffer.from('hi').toString('base64'));
+});
+
+test('explains inline filenames that cannot be used as a content ID', () => {
+    const result = multipartEmailBody({ to: 'a@example.com' }, { inline: [file('logo 1.png')] });
+
+    assert.strictEqual(result.body, undefined);
+    assert.match(result.error, /Inline file "logo 1\.png" is referenced as cid:<filename>/);
+    assert.match(result.error, /"logo-1\.png"/);
+});
+
+test('rejects multipart headers that are not JSON', () => {
+    assert.strictEqual(multipartEmailBody({ to: 'a@example.com', headers: 'X-Tag: welcome' }, {}).error, 'headers must be a JSON object');
+});
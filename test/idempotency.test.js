@@ -0,0 +1,40 @@
+// Idempotency-Key request fingerprints
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const { requestFingerprint } = require('../dist/idempotency');
+
+test('fingerprints equal bodies the same regardless of key order', () => {
+    const a = requestFingerprint('POST', '/api/sms/send', { to: '0241234567', message: 'Hi', options: { a: 1, b: [1, { y: 2, x: 1 }] } });
+    const b = requestFingerprint('POST', '/api/sms/send', { options: { b: [1, { x: 1, y: 2 }], a: 1 }, message: 'Hi', to: '0241234567' });
+
+    assert.strictEqual(a, b);
+    assert.match(a, /^[0-9a-f]{64}$/);
+});
+
+test('distinguishes the method, the path and the body', () => {
+    const body = { to: '0241234567', message: 'Hi' };
+    const base = requestFingerprint('POST', '/api/sms/send', body);
+
+    assert.notStrictEqual(requestFingerprint('PUT', '/api/sms/send', body), base);
+    assert.notStrictEqual(requestFingerprint('POST', '/api/sms/bulk', body), base);
+    assert.notStrictEqual(requestFingerprint('POST', '/api/sms/send', { ...body, message: 'Hi!' }), base);
+});
+
+test('keeps array order significant', () => {
+    assert.notStrictEqual(
+        requestFingerprint('POST', '/api/sms/bulk', { recipients: ['a', 'b'] }),
+        requestFingerprint('POST', '/api/sms/bulk', { recipients: ['b', 'a'] })
+    );
+});
+
+test('treats a missing body as an empty object', () => {
+    assert.strictEqual(requestFingerprint('POST', '/api/otp/resend', undefined), requestFingerprint('POST', '/api/otp/resend', {}));
+});
+
+test('does not confuse a string with the JSON it spells', () => {
+    assert.notStrictEqual(
+        requestFingerprint('POST', '/api/sms/send', { message: '{"a":1}' }),
+        requestFingerprint('POST', '/api/sms/send', { message: { a: 1 } })
+    );
+});
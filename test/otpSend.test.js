@@ -0,0 +1,66 @@
+// OTP send limits around failed deliveries, with stand-ins for the Redis-backed stores
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const { MessagingService } = require('../dist/messagingService');
+
+/**
+ * A MessagingService whose SMS provider answers with `result`, recording
+ * every send reservation made and given back
+ */
+function serviceWithProvider(result) {
+    const service = new MessagingService();
+    const reservation = { allowed: true, retryAfter: 60, nextAt: Date.now() + 60 * 1000 };
+    const released = [];
+
+    // Private fields; there is no Redis here
+    Object.assign(service.otpService, {
+        reserveSend: async () => reservation,
+        releaseSend: async (...args) => {
+            released.push(args);
+        },
+        scheduleFallback: async () => {},
+        createSession: async (input) => ({
+            id: 'verification-1',
+            tenantId: input.tenantId,
+            purpose: input.purpose,
+            channel: input.channel,
+            identifier: input.identifier,
+            destinations: [{ channel: input.channel, identifier: input.identifier }, ...(input.fallback || [])],
+            activeDestination: 0,
+            policy: 'default',
+            status: 'pending',
+            attempts: 0,
+            attemptsRemaining: 3,
+            resends: 0,
+            createdAt: new Date().toISOString(),
+            expiresAt: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+        }),
+    });
+    service.templateService = { render: async () => ({ templateId: 'otp', sms: 'Your code is 123456' }) };
+    service.messageStore = { create: async (message) => ({ id: 'message-1', ...message }) };
+    service.smsService.setProvider({ getProviderName: () => 'Test', sendSMS: async () => result, sendOTP: async () => result });
+
+    return { service, reservation, released };
+}
+
+test('a failed delivery gives the send reservation back', async () => {
+    const { service, reservation, released } = serviceWithProvider({ success: false, message: 'Test Error: unavailable', retryable: true });
+
+    const result = await service.sendOTP('sms', '+233241234567', 'login');
+
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.error, 'delivery_failed');
+    assert.strictEqual(result.retryAfter, undefined);
+    assert.deepStrictEqual(released, [['+233241234567', 'login', 'default', reservation]]);
+});
+
+test('a delivered code keeps the reservation', async () => {
+    const { service, released } = serviceWithProvider({ success: true, message: 'sent' });
+
+    const result = await service.sendOTP('sms', '+233241234567', 'login');
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.retryAfter, 60);
+    assert.deepStrictEqual(released, []);
+});
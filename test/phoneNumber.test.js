@@ -0,0 +1,73 @@
+// Phone number parsing and Ghana network detection
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const { parsePhoneNumber, toE164 } = require('../dist/phoneNumber');
+
+test('accepts international, national and 00-prefixed forms of the same number', () => {
+    for (const input of ['+233241234567', '233241234567', '00233241234567', '0241234567', '024 123-4567', '(024) 123 4567']) {
+        assert.strictEqual(toE164(input), '+233241234567', input);
+    }
+});
+
+test('reads nine bare digits as a Ghanaian national number, not a foreign country code', () => {
+    const result = parsePhoneNumber('241234567');
+
+    assert.strictEqual(result.valid, true);
+    assert.strictEqual(result.phone.e164, '+233241234567');
+    assert.strictEqual(result.phone.network, 'MTN');
+});
+
+test('keeps nine bare digits international when the default country is not Ghana', () => {
+    assert.strictEqual(toE164('241234567', '44'), '+241234567');
+});
+
+test('detects Ghanaian mobile networks by prefix', () => {
+    const cases = {
+        '0241234567': 'MTN',
+        '0551234567': 'MTN',
+        '0201234567': 'Telecel',
+        '0501234567': 'Telecel',
+        '0261234567': 'AirtelTigo',
+        '0571234567': 'AirtelTigo',
+        '0231234567': 'Glo',
+    };
+
+    for (const [input, network] of Object.entries(cases)) {
+        const { phone } = parsePhoneNumber(input);
+        assert.strictEqual(phone.network, network, input);
+        assert.strictEqual(phone.lineType, 'mobile', input);
+    }
+});
+
+test('accepts 03x fixed-line numbers without a network', () => {
+    for (const input of ['0302123456', '0322123456', '+233372123456']) {
+        const { phone } = parsePhoneNumber(input);
+        assert.strictEqual(phone.lineType, 'fixed_line', input);
+        assert.strictEqual(phone.network, undefined, input);
+    }
+
+    assert.strictEqual(toE164('0302123456'), '+233302123456');
+});
+
+test('rejects Ghanaian numbers with an unknown prefix or the wrong length', () => {
+    assert.match(parsePhoneNumber('0211234567').message, /021 is not an MTN/);
+    assert.match(parsePhoneNumber('024123456').message, /expected 10 digits/);
+    assert.match(parsePhoneNumber('02412345678').message, /expected 10 digits/);
+});
+
+test('rejects input that is not a phone number', () => {
+    assert.strictEqual(parsePhoneNumber('').valid, false);
+    assert.strictEqual(parsePhoneNumber(241234567).valid, false);
+    assert.match(parsePhoneNumber('024-abc-4567').message, /only digits/);
+    assert.match(parsePhoneNumber('+0241234567').message, /cannot start with 0/);
+    assert.match(parsePhoneNumber('+1234567').message, /8-15 digits/);
+});
+
+test('accepts other countries as given', () => {
+    const { phone } = parsePhoneNumber('+447911123456');
+
+    assert.strictEqual(phone.e164, '+447911123456');
+    assert.strictEqual(phone.lineType, 'unknown');
+    assert.strictEqual(phone.countryCode, undefined);
+});
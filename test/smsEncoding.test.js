@@ -0,0 +1,64 @@
+// SMS encoding detection, segment counting and GSM-7 transliteration
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const { analyzeSMS, transliterateToGSM } = require('../dist/smsEncoding');
+
+test('fits 160 GSM-7 characters in one segment and 153 per segment after that', () => {
+    assert.strictEqual(analyzeSMS('').segments, 0);
+    assert.deepStrictEqual(analyzeSMS('a'.repeat(160)), {
+        encoding: 'GSM-7',
+        characters: 160,
+        units: 160,
+        segments: 1,
+        unitsPerSegment: 160,
+        remaining: 0,
+        nonGsmCharacters: [],
+    });
+    assert.strictEqual(analyzeSMS('a'.repeat(161)).segments, 2);
+    assert.strictEqual(analyzeSMS('a'.repeat(306)).segments, 2);
+    assert.strictEqual(analyzeSMS('a'.repeat(307)).segments, 3);
+});
+
+test('counts extension characters as two septets', () => {
+    const analysis = analyzeSMS('€'.repeat(80));
+
+    assert.strictEqual(analysis.encoding, 'GSM-7');
+    assert.strictEqual(analysis.units, 160);
+    assert.strictEqual(analysis.segments, 1);
+    assert.strictEqual(analyzeSMS('€'.repeat(81)).segments, 2);
+});
+
+test('never splits an escape sequence across segments', () => {
+    // 152 septets, then an extension character that would straddle the boundary
+    const analysis = analyzeSMS('a'.repeat(152) + '[' + 'a'.repeat(10));
+
+    assert.strictEqual(analysis.units, 164);
+    assert.strictEqual(analysis.segments, 2);
+    assert.strictEqual(analysis.remaining, 153 - 12);
+});
+
+test('switches the whole message to UCS-2 for one character outside GSM-7', () => {
+    const analysis = analyzeSMS('Akwaaba ɛ');
+
+    assert.strictEqual(analysis.encoding, 'UCS-2');
+    assert.deepStrictEqual(analysis.nonGsmCharacters, ['ɛ']);
+    assert.strictEqual(analyzeSMS('ɛ'.repeat(70)).segments, 1);
+    assert.strictEqual(analyzeSMS('ɛ'.repeat(71)).segments, 2);
+    assert.strictEqual(analyzeSMS('ɛ'.repeat(135)).segments, 3);
+});
+
+test('counts emoji outside the BMP as two UCS-2 code units', () => {
+    const analysis = analyzeSMS('😀'.repeat(35));
+
+    assert.strictEqual(analysis.characters, 35);
+    assert.strictEqual(analysis.units, 70);
+    assert.strictEqual(analysis.segments, 1);
+});
+
+test('transliterates look-alikes to GSM-7 and keeps characters without one', () => {
+    assert.strictEqual(transliterateToGSM('“Mepɛ” – it’s ŋkɔ…'), '"Mepe" - it\'s nko...');
+    assert.strictEqual(transliterateToGSM('Ça coûte 5 €'), 'Ça coute 5 €');
+    assert.strictEqual(transliterateToGSM('Thanks 😀'), 'Thanks 😀');
+    assert.strictEqual(analyzeSMS(transliterateToGSM('Wo ho te sɛn?')).encoding, 'GSM-7');
+});
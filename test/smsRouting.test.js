@@ -0,0 +1,89 @@
+// SMS routing rule ranking and validation
+// Usage: npm test
+const test = require('node:test');
+const assert = require('node:assert');
+const { planRoute, providerCosts, validateRoutingRule } = require('../dist/smsRouting');
+
+const chain = ['Hubtel', 'Arkesel', 'Twilio'];
+const healthy = () => true;
+
+test('ranks matching rules by cost before specificity', () => {
+    const rules = [
+        { id: 'mtn', network: 'MTN', provider: 'Arkesel', costPerSegment: 0.03 },
+        { id: 'ghana', prefix: '233', provider: 'Twilio', costPerSegment: 0.01 },
+    ];
+
+    const route = planRoute(rules, '+233241234567', chain, healthy);
+
+    assert.deepStrictEqual(route.providers, ['Twilio', 'Arkesel', 'Hubtel']);
+    assert.strictEqual(route.rule, 'ghana');
+    assert.strictEqual(route.costPerSegment, 0.01);
+});
+
+test('breaks cost ties by specificity', () => {
+    const rules = [
+        { id: 'ghana', prefix: '233', provider: 'Hubtel', costPerSegment: 0.02 },
+        { id: 'mtn-prefix', prefix: '23324', provider: 'Twilio', costPerSegment: 0.02 },
+        { id: 'mtn', network: 'MTN', provider: 'Arkesel', costPerSegment: 0.02 },
+    ];
+
+    assert.deepStrictEqual(planRoute(rules, '+233241234567', chain, healthy).providers, ['Arkesel', 'Twilio', 'Hubtel']);
+});
+
+test('puts rules without a cost after priced rules', () => {
+    const rules = [
+        { id: 'mtn', network: 'MTN', provider: 'Arkesel' },
+        { id: 'everything', provider: 'Twilio', costPerSegment: 0.05 },
+    ];
+
+    assert.deepStrictEqual(planRoute(rules, '+233241234567', chain, healthy).providers, ['Twilio', 'Arkesel', 'Hubtel']);
+});
+
+test('ignores rules that do not match or name an unconfigured provider', () => {
+    const rules = [
+        { id: 'telecel', network: 'Telecel', provider: 'Arkesel', costPerSegment: 0.01 },
+        { id: 'uk', prefix: '44', provider: 'Twilio', costPerSegment: 0.01 },
+        { id: 'other', provider: 'Mnotify', costPerSegment: 0.001 },
+    ];
+
+    const route = planRoute(rules, '+233241234567', chain, healthy);
+
+    assert.deepStrictEqual(route.providers, chain);
+    assert.strictEqual(route.rule, undefined);
+    assert.strictEqual(route.reason, 'No matching rule; using the failover chain');
+});
+
+test('tries unhealthy providers last', () => {
+    const rules = [{ id: 'ghana', prefix: '233', provider: 'Arkesel', costPerSegment: 0.01 }];
+
+    const route = planRoute(rules, '+233241234567', chain, (name) => name !== 'Arkesel');
+
+    assert.deepStrictEqual(route.providers, ['Hubtel', 'Twilio', 'Arkesel']);
+    assert.match(route.reason, /unhealthy, tried last: Arkesel/);
+});
+
+test('reports the cost of the rule each provider would be picked by', () => {
+    const rules = [
+        { id: 'ghana', prefix: '233', provider: 'Arkesel', costPerSegment: 0.02 },
+        { id: 'mtn', network: 'MTN', provider: 'Arkesel', costPerSegment: 0.03 },
+        { id: 'everything', provider: 'Twilio', costPerSegment: 0.05 },
+    ];
+
+    assert.deepStrictEqual(providerCosts(rules, '+233241234567', chain), [
+        { provider: 'Hubtel', costPerSegment: undefined, rule: undefined },
+        { provider: 'Arkesel', costPerSegment: 0.02, rule: 'ghana' },
+        { provider: 'Twilio', costPerSegment: 0.05, rule: 'everything' },
+    ]);
+
+    // Without a number only catch-all rules apply
+    assert.strictEqual(providerCosts(rules, undefined, chain)[1].costPerSegment, undefined);
+});
+
+test('validates routing rules', () => {
+    assert.deepStrictEqual(validateRoutingRule({ id: 'ok', provider: 'arkesel', prefix: '233' }, chain), { valid: true });
+    assert.match(validateRoutingRule({ id: 'x', provider: 'Mnotify' }, chain).message, /configured SMS providers/);
+    assert.match(validateRoutingRule({ id: 'x', provider: 'Twilio', prefix: '+233' }, chain).message, /prefix/);
+    assert.match(validateRoutingRule({ id: 'x', provider: 'Twilio', network: 'Vodafone' }, chain).message, /network/);
+    assert.match(validateRoutingRule({ id: 'x', provider: 'Twilio', costPerSegment: -1 }, chain).message, /costPerSegment/);
+    assert.match(validateRoutingRule({ id: 'bad id', provider: 'Twilio' }, chain).message, /Invalid id/);
+});